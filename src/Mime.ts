@@ -4,6 +4,10 @@ export const Mime = {
         iso: 'application/json;charset=ISO-8859-1',
         utf8: 'application/json;charset=utf-8'
     },
+    jsonPatch: {
+        iso: 'application/json-patch+json;charset=ISO-8859-1',
+        utf8: 'application/json-patch+json;charset=utf-8'
+    },
     formData: {
         iso: 'application/x-www-form-urlencoded;charset=ISO-8859-1',
         utf8: 'application/x-www-form-urlencoded;charset=utf-8'
@@ -0,0 +1,86 @@
+/**
+ * Encoding of request bodies which can't be sent as JSON.
+ *
+ * Nested values are flattened into Rails-style keys:
+ *   {sample: {name: 'S1', files: [f1, f2]}}  =>  sample[name]=S1, sample[files][]=f1, sample[files][]=f2
+ * Arrays of objects are indexed, so their fields stay grouped: runs[0][id]=1, runs[0][name]=R1
+ */
+
+function isBlob(value: any): value is Blob {
+    return typeof Blob != 'undefined' && value instanceof Blob;
+}
+
+function isFormData(value: any): value is FormData {
+    return typeof FormData != 'undefined' && value instanceof FormData;
+}
+
+/**
+ * True if the value is, or contains at any depth, a File, Blob or FormData.
+ */
+export function containsBinary(value: any): boolean {
+    if (isBlob(value) || isFormData(value)) {
+        return true;
+    }
+    if (value && typeof value == 'object' && !(value instanceof Date)) {
+        return Object.keys(value).some(key => containsBinary(value[key]));
+    }
+    return false;
+}
+
+/**
+ * Flatten a value into [key, value] pairs. Undefined values are skipped and nulls become empty strings.
+ */
+export function flatten(value: any, prefix = ''): [string, string | Blob][] {
+    if (value === undefined) {
+        return [];
+    }
+    if (value === null) {
+        return [[prefix, '']];
+    }
+    if (value instanceof Date) {
+        return [[prefix, value.toISOString()]];
+    }
+    if (isBlob(value)) {
+        return [[prefix, value]];
+    }
+    if (isFormData(value)) {
+        const pairs: [string, string | Blob][] = [];
+        (value as any).forEach((entry: string | Blob, key: string) => {
+            pairs.push([prefix ? `${prefix}[${key}]` : key, entry]);
+        });
+        return pairs;
+    }
+    if (Array.isArray(value)) {
+        return value.reduce((pairs: [string, string | Blob][], item: any, index: number) => pairs.concat(
+            flatten(item, item && typeof item == 'object' && !isBlob(item) && !(item instanceof Date) ?
+                `${prefix}[${index}]` : `${prefix}[]`)
+        ), []);
+    }
+    if (typeof value == 'object') {
+        return Object.keys(value).reduce((pairs: [string, string | Blob][], key: string) => pairs.concat(
+            flatten(value[key], prefix ? `${prefix}[${key}]` : key)
+        ), []);
+    }
+    return [[prefix, `${value}`]];
+}
+
+export function toFormData(data: any): FormData {
+    if (isFormData(data)) {
+        return data;
+    }
+    const formData = new FormData();
+    for (let [key, value] of flatten(data)) {
+        if (typeof value == 'string') {
+            formData.append(key, value);
+        } else {
+            formData.append(key, value, (value as File).name);
+        }
+    }
+    return formData;
+}
+
+export function toUrlEncoded(data: any): string {
+    return flatten(data).map(([key, value]) =>
+        [key, value as string].map(encodeURIComponent).join('=')
+    ).join('&');
+}
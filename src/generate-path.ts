@@ -1,4 +1,5 @@
 import {compile} from "path-to-regexp";
+import {routePath} from "./routes";
 
 /**
  * Taken from react-router
@@ -28,9 +29,10 @@ function compilePath(path: string) {
 }
 
 /**
- * Public API for generating a URL pathname from a path and parameters.
+ * Public API for generating a URL pathname from a path, or the name of a route, and parameters.
  */
 function generatePath(path: string = "/", params = {}) {
+    path = routePath(path);
     let {protocolAndHostname, generator} = compilePath(path);
     return path === "/" ? path : (protocolAndHostname + generator(params, { pretty: true }));
 }
@@ -44,6 +44,23 @@ export function deepCompare<T>(i1: any, i2: any): boolean {
     return true;
 }
 
+/**
+ * A copy of a parsed JSON value, sharing nothing with the original.
+ */
+export function deepCopy<T>(value: T): T {
+    if (Array.isArray(value)) {
+        return value.map(deepCopy) as any;
+    }
+    if (value && typeof value == 'object') {
+        const copy: any = {};
+        for (let key in value) if (value.hasOwnProperty(key)) {
+            copy[key] = deepCopy(value[key]);
+        }
+        return copy;
+    }
+    return value;
+}
+
 export function filterNulls<T, K extends keyof T>(obj: T): Pick<T,K> {
     let newObj: Pick<T,any> = {};
     for (let key in obj) if (obj.hasOwnProperty(key)) {
@@ -1,3 +1,29 @@
 export {default as JsonApi} from './json-api';
 export {default as ComposerHOC} from './composer-hoc';
-export {default as LoaderHOC} from './loader-hoc';
+export {default as LoaderHOC, MultiLoaderHOC} from './loader-hoc';
+export {xhrTransport, fetchTransport, Transport} from './transport';
+export {JsonApiError, JsonApiErrorKind} from './json-api-error';
+export {serializeQuery, parseQuery, QueryFormat} from './query-string';
+export {invalidateCache} from './response-cache';
+export {useResource} from './use-resource';
+export {useComposer} from './use-composer';
+export {usePagedResource} from './use-paged-resource';
+export {useResources} from './use-resources';
+export {prefetch, hydrate, DehydratedState} from './ssr';
+export {LoaderErrorBoundary, LoaderError, useSuspenseResource} from './suspense';
+export {FieldErrors, Validation} from './validation';
+export {deepDiff, applyPatch, PatchOperation, PatchError} from './json-patch';
+export {defineRoutes, matchRoute, RouteParams} from './routes';
+export {notify, notifyError, Notification, NotificationInput} from './notifications';
+export {NotificationProvider, NotificationServerHandler, useNotifications} from './notification-provider';
+export {useRealtime, RealtimeTransport, eventSourceTransport, webSocketTransport} from './realtime';
+export {
+    enableOfflineQueue,
+    queuedCalls,
+    replayQueue,
+    retryQueued,
+    discardQueued,
+    subscribeToQueue,
+    QueuedCall,
+    QueuedError
+} from './offline-queue';
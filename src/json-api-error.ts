@@ -0,0 +1,59 @@
+/**
+ * What went wrong with a JsonApi call:
+ *   network  the server could not be reached
+ *   timeout  the server did not respond in time
+ *   abort    the request was aborted by something other than cancel()
+ *   http     the server responded with an error status
+ *   parse    the server claimed to send JSON, but the body could not be parsed
+ *   queued   the server could not be reached, and the call was queued to be sent later (see offline-queue)
+ */
+export type JsonApiErrorKind = 'network' | 'timeout' | 'abort' | 'http' | 'parse' | 'queued';
+
+export interface JsonApiErrorDetails {
+    kind: JsonApiErrorKind;
+    status?: number;
+    statusText?: string;
+    headers?: Record<string, string>;
+    body?: any;
+}
+
+/**
+ * The rejection value of a failed JsonApi call.
+ *
+ * The message is the one JsonApi has always reported (the server's `error` field, its raw response, or
+ * "Could not reach the server"), and the error stringifies to it, so it can be displayed as-is.
+ */
+export class JsonApiError extends Error implements JsonApiErrorDetails {
+    kind: JsonApiErrorKind;
+
+    /**
+     * HTTP status, or 0 if no response was received.
+     */
+    status: number;
+    statusText: string;
+
+    /**
+     * Response headers, with lower-cased names.
+     */
+    headers: Record<string, string>;
+
+    /**
+     * The response body, parsed as JSON where possible.
+     */
+    body: any;
+
+    constructor(message: string, details: JsonApiErrorDetails) {
+        super(message);
+        this.name = 'JsonApiError';
+        this.kind = details.kind;
+        this.status = details.status || 0;
+        this.statusText = details.statusText || '';
+        this.headers = details.headers || {};
+        this.body = details.body;
+    }
+
+    toString() {
+        return this.message;
+    }
+}
+
@@ -1,9 +1,26 @@
 import {Mime} from "./Mime";
 import {urlFor} from "./urlFor";
 import {History} from "history";
+import {detectTransport, Transport, TransportFailure, TransportProgress, TransportResponse} from "./transport";
+import {JsonApiError} from "./json-api-error";
+import {defaultRetryPolicy, retryDelay, RetryPolicy, shouldRetry} from "./retry";
+import {containsBinary, toFormData, toUrlEncoded} from "./form-data";
+import {QueryFormat, serializeQuery} from "./query-string";
+import {CacheOptions, configureCache, invalidateRelated, readCache, writeCache} from "./response-cache";
+import {notify} from "./notifications";
+import {deepCopy} from "./helpers";
+import {QueueCallbacks} from "./offline-queue";
+
+export {invalidateCache} from "./response-cache";
 
 let LOGGING = false;
 let logger: Function = console.log;
+let globalTransport: Transport = null;
+let globalInterceptors: Interceptor[] = [];
+let globalTimeout = 90 * 1000;
+let globalRetryPolicy: RetryPolicy = defaultRetryPolicy;
+let globalCaching = false;
+let globalDedupe = true;
 
 export function enableLogging(newLogger = logger) {
     LOGGING = true;
@@ -15,11 +32,166 @@ export function disableLogging() {
     LOGGING = false;
 }
 
-type Method = 'GET'|'POST'|'PATCH'|'PUT'|'DELETE'|'LINK'|'UNLINK';
+export function configureDefaults(options: {
+    transport?: Transport,
+    timeout?: number,
+    retry?: RetryPolicy,
+    cache?: boolean | CacheOptions,
+    dedupe?: boolean
+}) {
+    // null restores the automatic choice
+    if (options.transport !== undefined) {
+        globalTransport = options.transport;
+    }
+    if (options.timeout !== undefined) {
+        globalTimeout = options.timeout;
+    }
+    if (options.retry) {
+        globalRetryPolicy = {...defaultRetryPolicy, ...options.retry};
+    }
+    if (options.cache !== undefined) {
+        globalCaching = !!options.cache;
+        if (typeof options.cache == 'object') {
+            configureCache(options.cache);
+        }
+    }
+    if (options.dedupe !== undefined) {
+        globalDedupe = options.dedupe;
+    }
+}
+
+/**
+ * Register an interceptor for every JsonApi call. Interceptors run in the order they were added, before any
+ * interceptors passed to an individual call.
+ * @returns a function which removes the interceptor again
+ */
+export function addInterceptor(interceptor: Interceptor): () => void {
+    globalInterceptors = globalInterceptors.concat(interceptor);
+    return () => {
+        globalInterceptors = globalInterceptors.filter(i => i !== interceptor);
+    };
+}
+
+export interface JsonApiOptions {
+    routeWith?: History;
+
+    /**
+     * Transport for this call only; defaults to the one set with configureDefaults, or XMLHttpRequest when available.
+     */
+    transport?: Transport;
+
+    /**
+     * Interceptors for this call only, run after the global ones.
+     */
+    interceptors?: Interceptor[];
+
+    /**
+     * Milliseconds to wait for each attempt, or 0 to wait indefinitely. Defaults to 90 seconds.
+     */
+    timeout?: number;
+
+    /**
+     * Retry policy for this call, merged over the global one; `false` disables retries.
+     */
+    retry?: RetryPolicy | false;
+
+    /**
+     * Post the call's outcome to the notifications: the message of a successful response (with its redirectTo, if any),
+     * or the error.
+     */
+    notify?: boolean;
+
+    /**
+     * Whether this call may be queued while offline, once the offline queue is enabled (see offline-queue), or
+     * callbacks for when it is sent later.
+     */
+    queue?: boolean | QueueCallbacks;
+
+    /**
+     * Extra request headers for this call, such as If-Match.
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * Receives the whole of a successful response, including its headers, before the call resolves with its data.
+     * Not called for responses from the cache. If it throws, the call fails with what it threw.
+     */
+    onResponse?(response: JsonApiResponse): void;
+
+    /**
+     * Content-Type of the request body, by default JSON. Use Mime.formData to send it urlencoded.
+     * Bodies containing a File, Blob or FormData at any depth are always sent as multipart/form-data.
+     */
+    contentType?: string;
+
+    onUploadProgress?(progress: TransportProgress): void;
+    onDownloadProgress?(progress: TransportProgress): void;
+
+    /**
+     * How GET parameters are written into the query string, overriding the defaults set in query-string.
+     */
+    queryFormat?: QueryFormat;
+
+    /**
+     * Whether a GET may be answered from, and stored in, the response cache; an object sets its ttl for this call.
+     * Defaults to the global setting, which is off.
+     */
+    cache?: boolean | {ttl?: number};
+
+    /**
+     * Whether a GET may share an identical request already in flight. Defaults to the global setting, which is on.
+     * Only calls with the same headers, timeout and retry policy share a request, and calls with their own transport,
+     * interceptors, progress callbacks or onResponse never do.
+     */
+    dedupe?: boolean;
+}
+
+/**
+ * A request as seen by interceptors. `data` is the request body before it is encoded; GET parameters have already
+ * been added to the url.
+ */
+export interface JsonApiRequest {
+    method: Method;
+    url: string;
+    headers: Record<string, string>;
+    data?: any;
+    readonly options: JsonApiOptions;
+
+    /**
+     * The request as the call made it, before any interceptor changed it.
+     */
+    readonly original?: Readonly<Pick<JsonApiRequest, 'method' | 'url' | 'headers' | 'data'>>;
+}
+
+/**
+ * A server response as seen by interceptors. `data` is the parsed body, which becomes the value of a successful call.
+ * For error statuses it is the source of the error message.
+ */
+export interface JsonApiResponse {
+    readonly request: JsonApiRequest;
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    data: any;
+}
+
+/**
+ * Either hook may return a replacement (or a promise of one), or throw / reject to fail the call with that reason.
+ * Response hooks see every response the server sends, including error statuses, but not network failures.
+ * Error hooks see the failures of requests which got no usable response, once retries are exhausted; they may recover
+ * with a response, or throw / reject with the error or another reason.
+ */
+export interface Interceptor {
+    request?(request: JsonApiRequest): JsonApiRequest | Promise<JsonApiRequest>;
+    response?(response: JsonApiResponse): JsonApiResponse | Promise<JsonApiResponse>;
+    error?(error: JsonApiError, request: JsonApiRequest): JsonApiResponse | Promise<JsonApiResponse>;
+}
+
+export type Method = 'GET'|'POST'|'PATCH'|'PUT'|'DELETE'|'LINK'|'UNLINK';
 type MethodLower = 'get'|'post'|'patch'|'put'|'delete'|'link'|'unlink';
 type SuccessFn = (response: any) => void;
-type FailureFn = (message: string) => void;
-type JsonApiFn = (url: string, data?: any, options?: {routeWith?: History}) => CancellablePromise<any>;
+type FailureFn = (error: JsonApiError) => void;
+type JsonApiFn = (url: string, data?: any, options?: JsonApiOptions) => CancellablePromise<any>;
 
 // some literal constants
 const GET: Method = 'GET';
@@ -35,14 +207,27 @@ const UNLINK: Method = 'UNLINK';
  * UPDATED with new traps to enable use of Sinon spies and stubs
  * ALSO UPDATED to accept a history to route
  */
-const promiseApiCache = {};
-const wrap = (fn: Function) => (url: string, data?: any, options: {routeWith?: History} = {}) => {
-    let xhr: XMLHttpRequest;
+const wrap = (fn: Function) => (url: string, data?: any, options: JsonApiOptions = {}) => {
+    let abort: () => void;
     let promise = new Promise<void>(
         (success, fail) => {
-            xhr = fn(url, data, success, fail);
+            abort = fn(url, data, success, fail, options);
         }
     );
+    if (options.notify) {
+        promise = promise.then(
+            (response: any) => {
+                if (response && response.message) {
+                    notify({message: response.message, severity: 'success', redirectTo: response.redirectTo});
+                }
+                return response;
+            },
+            (error: JsonApiError) => {
+                notify({message: `${error}`, severity: 'error'});
+                return Promise.reject(error);
+            }
+        );
+    }
     let history: History;
     if (history = options.routeWith) {
         promise = promise.then(
@@ -50,7 +235,7 @@ const wrap = (fn: Function) => (url: string, data?: any, options: {routeWith?: H
                 if (Object.keys(redirect).length > 0) {
                     history.push({
                         ...history.location,
-                        pathname: urlFor(redirect),
+                        pathname: urlFor(redirect, history.location),
                         state: {serverMessage: message}
                     })
                 } else {
@@ -60,31 +245,36 @@ const wrap = (fn: Function) => (url: string, data?: any, options: {routeWith?: H
                     })
                 }
             },
-            (error: string) => {
+            (error: JsonApiError) => {
                 history.replace({
                     ...history.location,
-                    state: {errorMessage: error}
+                    state: {errorMessage: `${error}`}
                 })
             }
         );
     }
     return makeCancellablePromise(promise, () => {
-        if (xhr) xhr.abort();
-        else throw "XMLHttpRequest cannot be canceled before it is initiated."
+        if (abort) abort();
+        else throw "Request cannot be canceled before it is initiated."
     });
 };
 
+/**
+ * The url requested by a GET with this query, which is also its key in the response cache.
+ */
+export function getUrl(url: string, data?: any, format?: QueryFormat): string {
+    const query = data && serializeQuery(data, format);
+    return query ? url + (url.indexOf('?') >= 0 ? '&' : '?') + query : url;
+}
+
 /**
  * Functions for RESTful API operations.
  * Every method has the same signature:
- * (url: string, data?: any, success?: SuccessFn, fail?: FailureFn): void
+ * (url: string, data?: any, success?: SuccessFn, fail?: FailureFn, options?: JsonApiOptions): () => void
  */
 export default {
-    get: wrap((url: string, data?: any, ...callbacks: ((arg: string) => void)[]) => {
-        if (data) {
-            url += '?' + serializeUri(data);
-        }
-        return send.call(null, GET, url, {}, ...callbacks);
+    get: wrap((url: string, data?: any, success?: SuccessFn, fail?: FailureFn, options: JsonApiOptions = {}) => {
+        return sendGet(getUrl(url, data, options.queryFormat), success, fail, options);
     }),
     post: wrap((...args: any[]) => {
         return send.call(null, POST, ...args);
@@ -123,8 +313,91 @@ function makeCancellablePromise<T>(promise: CancellablePromise<T>, onCancel: ()
     return promise;
 }
 
+/**
+ * GET requests in flight, by url and the options which shape the exchange, with the callbacks of every call waiting
+ * on them.
+ */
+const inFlight: Record<string, {abort: () => void, waiting: {success: SuccessFn, fail: FailureFn}[]}> = {};
+
+/**
+ * Whether a GET with these options may be answered from the response cache.
+ */
+export function isCaching(options: JsonApiOptions = {}): boolean {
+    return options.cache !== undefined ? !!options.cache : globalCaching;
+}
+
+/**
+ * Send a GET, unless the response is cached or an identical request is already in flight.
+ */
+function sendGet(url: string, success: SuccessFn, fail: FailureFn, options: JsonApiOptions): () => void {
+    const caching = isCaching(options);
+    const ttl = typeof options.cache == 'object' ? options.cache.ttl : undefined;
+    const dedupe = (options.dedupe !== undefined ? options.dedupe : globalDedupe)
+        && !options.transport && !options.interceptors && !options.onResponse
+        && !options.onUploadProgress && !options.onDownloadProgress;
+
+    // every caller gets its own copy of a shared or cached response, so that changing it can't affect the others
+    if (caching) {
+        const cached = readCache(url);
+        if (cached !== undefined) {
+            log(`get ${url} (cached)`);
+            success(deepCopy(cached));
+            return () => null;
+        }
+    }
+    const store = (response: any) => {
+        if (caching) {
+            writeCache(url, deepCopy(response), ttl);
+        }
+        return response;
+    };
+    if (!dedupe) {
+        return send(GET, url, undefined, response => success(store(response)), fail, options);
+    }
+
+    const key = `${url} ${JSON.stringify([options.headers, options.timeout, options.retry])}`;
+    const caller = {success, fail};
+    let shared = inFlight[key];
+    if (shared) {
+        log(`get ${url} (shared)`);
+    } else {
+        const settle = () => {
+            delete inFlight[key];
+            return shared.waiting;
+        };
+        shared = inFlight[key] = {abort: null, waiting: []};
+        shared.abort = send(
+            GET, url, undefined,
+            response => {
+                store(response);
+                settle().forEach((waiting, i) => waiting.success(i ? deepCopy(response) : response));
+            },
+            error => settle().forEach(waiting => waiting.fail(error)),
+            options
+        );
+    }
+    shared.waiting.push(caller);
+    return () => {
+        shared.waiting = shared.waiting.filter(waiting => waiting !== caller);
+        if (!shared.waiting.length && inFlight[key] === shared) {
+            delete inFlight[key];
+            shared.abort();
+        }
+    };
+}
+
+/**
+ * State shared between a call and its cancel() method.
+ */
+interface Exchange {
+    cancelled: boolean;
+    abort?: () => void;
+    retryTimer?: any;
+}
+
 /**
  * The base send function.
+ * Returns a function which aborts the request.
  */
 function send(
     method: Method,
@@ -132,79 +405,193 @@ function send(
     data?: any,
     success: SuccessFn = () => null,
     fail: FailureFn = err => { throw new Error(`${err}`) },
-    contentType: string = Mime.json.utf8
-) {
-    log(`${method.toLowerCase()} ${url}`);
-    let xhr = new XMLHttpRequest();
-    xhr.open(method, url, true);
-    xhr.setRequestHeader("Accept", Mime.json.utf8);
-    xhr.timeout = 90 * 1000;
-    if (contentType) {
-        xhr.setRequestHeader("Content-Type", contentType);
-    }
-    xhr.onload = function() {
-        const locationHeader = xhr.getResponseHeader('Location');
-        if (xhr.status >= 200 && xhr.status < 300) {
-            if (locationHeader) {
-                doSuccess(success, xhr.responseText, locationHeader);
+    options: JsonApiOptions = {}
+): () => void {
+    const exchange: Exchange = {cancelled: false};
+    const interceptors = globalInterceptors.concat(options.interceptors || []);
+    const headers: Record<string, string> = {
+        "Accept": Mime.json.utf8,
+        "Content-Type": options.contentType || Mime.json.utf8,
+        ...options.headers
+    };
+
+    interceptors.reduce(
+        (prev, interceptor) => interceptor.request ? prev.then(req => interceptor.request(req)) : prev,
+        Promise.resolve<JsonApiRequest>({method, url, headers, data, options, original: {method, url, headers, data}})
+    ).then(
+        request => dispatch(request, exchange).catch(error => interceptors.reduce(
+            (prev, interceptor) => interceptor.error ? prev.catch(e => interceptor.error(e, request)) : prev,
+            Promise.reject<JsonApiResponse>(error)
+        ))
+    ).then(
+        response => interceptors.reduce(
+            (prev, interceptor) => interceptor.response ? prev.then(res => interceptor.response(res)) : prev,
+            Promise.resolve(response)
+        )
+    ).then(
+        response => {
+            if (exchange.cancelled) return;
+            if (isSuccess(response.status)) {
+                if (method !== GET) {
+                    // cached under the url of the call, or of the request, where an interceptor has rewritten it
+                    invalidateRelated(url);
+                    if (response.request && response.request.url !== url) {
+                        invalidateRelated(response.request.url);
+                    }
+                }
+                try {
+                    options.onResponse && options.onResponse(response);
+                } catch (error) {
+                    fail(error);
+                    return;
+                }
+                success(response.data);
             } else {
-                doSuccess(success, xhr.responseText);
+                doError(fail, response);
             }
-        } else {
-            doError(fail, xhr.responseText);
-        }
-    };
-    xhr.onreadystatechange = function(e) {
-        if (xhr.readyState === XMLHttpRequest.DONE && xhr.status === 0) {
-            fail("Could not reach the server");
+        },
+        error => {
+            if (!exchange.cancelled) fail(error);
         }
+    );
+
+    return () => {
+        exchange.cancelled = true;
+        clearTimeout(exchange.retryTimer);
+        if (exchange.abort) exchange.abort();
     };
-    xhr.onabort = function() {
-        xhr.onload = null;
-        xhr.onreadystatechange = null;
-    };
-    xhr.send(data && JSON.stringify(data));
-    return xhr;
 }
 
 /**
- * Try to parse a server response as JSON.
- * If the server responded anomalously, just return the raw response.
+ * Hand a request to the transport, retrying according to the call's retry policy.
+ * The returned promise never settles if the exchange is cancelled.
+ */
+function dispatch(request: JsonApiRequest, exchange: Exchange, attempt = 1): Promise<JsonApiResponse> {
+    const {options} = request;
+    const policy: RetryPolicy = options.retry === false ? {...globalRetryPolicy, maxAttempts: 1} :
+        {...globalRetryPolicy, ...options.retry};
+    const retryLater = (status: number, headers?: Record<string, string>) => new Promise<JsonApiResponse>(resolve => {
+        const delay = retryDelay(policy, attempt, headers);
+        log(`retrying ${request.method.toLowerCase()} ${request.url} in ${delay}ms (status ${status})`);
+        exchange.retryTimer = setTimeout(() => resolve(dispatch(request, exchange, attempt + 1)), delay);
+    });
+
+    return new Promise<JsonApiResponse>((resolve, reject) => {
+        if (exchange.cancelled) return;
+        log(`${request.method.toLowerCase()} ${request.url}`);
+        const transport = options.transport || globalTransport || detectTransport();
+        exchange.abort = transport(
+            {
+                method: request.method,
+                url: request.url,
+                ...encodeBody(request),
+                timeout: options.timeout !== undefined ? options.timeout : globalTimeout,
+                onUploadProgress: options.onUploadProgress,
+                onDownloadProgress: options.onDownloadProgress
+            },
+            response => {
+                try {
+                    resolve({
+                        request,
+                        status: response.status,
+                        statusText: response.statusText,
+                        headers: response.headers,
+                        data: parseResponse(response)
+                    });
+                } catch (error) {
+                    reject(error);
+                }
+            },
+            reason => reject(transportError(reason))
+        );
+    }).then(
+        response => shouldRetry(policy, request.method, attempt, response.status) ?
+            retryLater(response.status, response.headers) :
+            response,
+        (error: JsonApiError) => (error.kind === 'network' || error.kind === 'timeout')
+            && shouldRetry(policy, request.method, attempt, 0) ?
+            retryLater(0) :
+            Promise.reject(error)
+    );
+}
+
+/**
+ * Encode the request body according to its Content-Type header, unless it contains files.
+ */
+function encodeBody(request: JsonApiRequest): {body: any, headers: Record<string, string>} {
+    const {data} = request;
+    const headers = {...request.headers};
+    const contentTypeHeader = Object.keys(headers).filter(name => name.toLowerCase() === 'content-type')[0];
+    if (!data) {
+        return {body: data, headers};
+    }
+    if (containsBinary(data)) {
+        // the browser adds the multipart boundary to the Content-Type itself
+        delete headers[contentTypeHeader];
+        return {body: toFormData(data), headers};
+    }
+    if (/^application\/x-www-form-urlencoded/.test(headers[contentTypeHeader])) {
+        return {body: toUrlEncoded(data), headers};
+    }
+    return {body: JSON.stringify(data), headers};
+}
+
+function isSuccess(status: number) {
+    return status >= 200 && status < 300;
+}
+
+/**
+ * Try to parse a server response as JSON, noting any redirect on successful responses.
+ * If the server responded anomalously, just return the raw response - unless it claimed to be sending JSON.
  */
-function doSuccess(callback: SuccessFn, response: string, redirectTo?: string) {
+function parseResponse(response: TransportResponse): any {
     let parsed;
     try {
-        parsed = JSON.parse(response);
-        if (redirectTo) {
-            parsed.redirectTo = redirectTo;
+        parsed = JSON.parse(response.body);
+        if (isSuccess(response.status) && response.headers['location']) {
+            parsed.redirectTo = response.headers['location'];
         }
     } catch(e) {
-        parsed = response;
+        if (response.body && isSuccess(response.status) && /json/.test(response.headers['content-type'])) {
+            throw new JsonApiError("Server returned with an unexpected response", {
+                kind: 'parse',
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers,
+                body: response.body
+            });
+        }
+        parsed = response.body;
     }
-    callback(parsed);
+    return parsed;
 }
 
 /**
- * Try to parse a server error response as JSON.
- * If that doesn't work, just return the raw response.
+ * Find the message in a parsed server error response.
+ * If it isn't in the expected format, just use the raw response.
  */
-function doError(callback: FailureFn, response: string) {
-    try {
-        // ideal case: server res
-        const data = JSON.parse(response);
-        callback((data.error === '' ? '(no message provided)' : data.error) || data);
-    } catch(e) {
+function doError(callback: FailureFn, response: JsonApiResponse) {
+    const {data} = response;
+    let message: string;
+    if (data && typeof data == 'object') {
+        // ideal case: server responded with {"error": "[error message]"}
+        message = data.error === '' ? '(no message provided)' : data.error || JSON.stringify(data);
+    } else {
         // some error occurred and details are not available
-        callback(response || "Server returned with an unexpected response");
+        message = data || "Server returned with an unexpected response";
     }
+    callback(new JsonApiError(`${message}`, {
+        kind: 'http',
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        body: data
+    }));
 }
 
-function serializeUri(obj: any) {
-    let params = [];
-    for (let key in obj) if (obj.hasOwnProperty(key) && obj[key] !== undefined && obj[key] !== null) {
-        params.push(key + "=" + encodeURIComponent(obj[key]));
-    }
-    return params.join("&");
+function transportError(reason: TransportFailure) {
+    const message = reason === 'abort' ? "The request was aborted" : "Could not reach the server";
+    return new JsonApiError(message, {kind: reason});
 }
 
 function log(msg: string): void {
@@ -0,0 +1,271 @@
+import {deepCompare} from "./helpers";
+import {containsBinary} from "./form-data";
+
+/**
+ * @docs
+ *
+ * Deep differences as JSON Patch (RFC 6902)
+ *
+ *   deepDiff({name: 'a', aliquots: [{id: 1, volume: 5}, {id: 2, volume: 3}]},
+ *            {name: 'a', aliquots: [{id: 2, volume: 3}, {id: 1, volume: 4}]}, {identity: 'id'})
+ *   => [{op: 'move', from: '/aliquots/1', path: '/aliquots/0'}, {op: 'replace', path: '/aliquots/1/volume', value: 4}]
+ *
+ *   applyPatch(sample, operations)
+ *
+ * Objects are compared key by key, and arrays item by item, so a change deep inside a record is a single operation.
+ * Without an identity, array items are compared by position: items added or removed in the middle of an array are
+ * found when the items around them are unchanged. With an identity, items are matched by it wherever they are, and
+ * moved into place; items without one are always added afresh.
+ *
+ * applyPatch leaves the document as it is, and returns a copy with the changes. Values holding a File or Blob are
+ * replaced whole, as they can't be compared in parts.
+ */
+
+export type PatchOperation =
+    { op: 'add' | 'replace' | 'test', path: string, value: any } |
+    { op: 'remove', path: string } |
+    { op: 'move' | 'copy', from: string, path: string };
+
+export interface DiffOptions {
+    /**
+     * Matches the items of arrays of records: the name of a field, such as 'id', or a function returning the
+     * identity of an item (or undefined if it has none).
+     */
+    identity?: string | ((item: any) => any);
+}
+
+/**
+ * Thrown by applyPatch for an operation which can't be applied, including a failed test.
+ */
+export class PatchError extends Error {
+    operation: PatchOperation;
+
+    constructor(message: string, operation: PatchOperation) {
+        super(`${message}: ${JSON.stringify(operation)}`);
+        this.name = 'PatchError';
+        this.operation = operation;
+    }
+}
+
+export function escapePointer(token: string | number) {
+    return `${token}`.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export function parsePointer(pointer: string): string[] {
+    if (pointer === '') {
+        return [];
+    }
+    if (pointer[0] !== '/') {
+        throw new Error(`Not a JSON pointer: ${pointer}`);
+    }
+    return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isRecord(value: any) {
+    return typeof value == 'object' && value !== null && !Array.isArray(value) && !containsBinary(value);
+}
+
+/**
+ * The operations which turn lhs into rhs. Fields whose value is undefined count as absent, as they do in JSON.
+ */
+export function deepDiff(lhs: any, rhs: any, options: DiffOptions = {}): PatchOperation[] {
+    const operations: PatchOperation[] = [];
+    diffValues(lhs, rhs, '', options, operations);
+    return operations;
+}
+
+function diffValues(lhs: any, rhs: any, path: string, options: DiffOptions, operations: PatchOperation[]) {
+    if (isRecord(lhs) && isRecord(rhs)) {
+        diffObjects(lhs, rhs, path, options, operations);
+    } else if (Array.isArray(lhs) && Array.isArray(rhs) && !containsBinary(lhs) && !containsBinary(rhs)) {
+        if (options.identity && lhs.concat(rhs).every(isRecord)) {
+            diffKeyedArrays(lhs, rhs, path, options, operations);
+        } else {
+            diffArrays(lhs, rhs, path, options, operations);
+        }
+    } else if (!deepCompare(lhs, rhs)) {
+        operations.push({op: 'replace', path, value: rhs});
+    }
+}
+
+function diffObjects(lhs: any, rhs: any, path: string, options: DiffOptions, operations: PatchOperation[]) {
+    for (let key in lhs) if (lhs.hasOwnProperty(key) && lhs[key] !== undefined) {
+        if (!rhs.hasOwnProperty(key) || rhs[key] === undefined) {
+            operations.push({op: 'remove', path: `${path}/${escapePointer(key)}`});
+        } else {
+            diffValues(lhs[key], rhs[key], `${path}/${escapePointer(key)}`, options, operations);
+        }
+    }
+    for (let key in rhs) if (rhs.hasOwnProperty(key) && rhs[key] !== undefined) {
+        if (!lhs.hasOwnProperty(key) || lhs[key] === undefined) {
+            operations.push({op: 'add', path: `${path}/${escapePointer(key)}`, value: rhs[key]});
+        }
+    }
+}
+
+function diffArrays(lhs: any[], rhs: any[], path: string, options: DiffOptions, operations: PatchOperation[]) {
+    // skip the unchanged items at either end, so that an insertion or removal in the middle is found as one
+    let start = 0;
+    while (start < lhs.length && start < rhs.length && deepCompare(lhs[start], rhs[start])) {
+        start++;
+    }
+    let lhsEnd = lhs.length, rhsEnd = rhs.length;
+    while (lhsEnd > start && rhsEnd > start && deepCompare(lhs[lhsEnd - 1], rhs[rhsEnd - 1])) {
+        lhsEnd--;
+        rhsEnd--;
+    }
+    const common = Math.min(lhsEnd, rhsEnd);
+    for (let i = start; i < common; i++) {
+        diffValues(lhs[i], rhs[i], `${path}/${i}`, options, operations);
+    }
+    for (let i = lhsEnd - 1; i >= common; i--) {
+        operations.push({op: 'remove', path: `${path}/${i}`});
+    }
+    for (let i = common; i < rhsEnd; i++) {
+        operations.push({op: 'add', path: `${path}/${i}`, value: rhs[i]});
+    }
+}
+
+function diffKeyedArrays(lhs: any[], rhs: any[], path: string, options: DiffOptions, operations: PatchOperation[]) {
+    const {identity} = options;
+    const identify = typeof identity == 'function' ? identity : (item: any) => item[identity];
+    const wanted = rhs.map(identify);
+
+    // the identities of the items in the array as the operations so far leave it
+    const current = lhs.map(identify);
+    for (let i = lhs.length - 1; i >= 0; i--) {
+        if (current[i] === undefined || wanted.indexOf(current[i]) < 0) {
+            operations.push({op: 'remove', path: `${path}/${i}`});
+            current.splice(i, 1);
+        }
+    }
+
+    rhs.forEach((item, i) => {
+        const id = wanted[i];
+        const from = id === undefined ? -1 : current.indexOf(id, i);
+        if (from < 0) {
+            operations.push({op: 'add', path: `${path}/${i}`, value: item});
+            current.splice(i, 0, undefined);
+            return;
+        }
+        if (from !== i) {
+            operations.push({op: 'move', from: `${path}/${from}`, path: `${path}/${i}`});
+            current.splice(i, 0, current.splice(from, 1)[0]);
+        }
+        const original = lhs.filter(candidate => identify(candidate) === id)[0];
+        diffValues(original, item, `${path}/${i}`, options, operations);
+    });
+}
+
+/**
+ * @returns a copy of the document with the operations applied in order
+ */
+export function applyPatch<T>(document: T, operations: PatchOperation[]): T {
+    return operations.reduce((patched, operation) => applyOperation(patched, operation), document);
+}
+
+function applyOperation(document: any, operation: PatchOperation): any {
+    switch (operation.op) {
+        case 'add':
+            return addValue(document, parsePointer(operation.path), operation.value, operation);
+        case 'remove':
+            return removeValue(document, parsePointer(operation.path), operation);
+        case 'replace':
+            return addValue(
+                removeValue(document, parsePointer(operation.path), operation),
+                parsePointer(operation.path),
+                operation.value,
+                operation
+            );
+        case 'move': {
+            const value = valueAt(document, parsePointer(operation.from), operation);
+            const removed = removeValue(document, parsePointer(operation.from), operation);
+            return addValue(removed, parsePointer(operation.path), value, operation);
+        }
+        case 'copy':
+            return addValue(
+                document,
+                parsePointer(operation.path),
+                valueAt(document, parsePointer(operation.from), operation),
+                operation
+            );
+        case 'test':
+            if (!deepCompare(valueAt(document, parsePointer(operation.path), operation), operation.value)) {
+                throw new PatchError('Test failed', operation);
+            }
+            return document;
+        default:
+            throw new PatchError('Unknown operation', operation);
+    }
+}
+
+function arrayIndex(array: any[], token: string, operation: PatchOperation, forAdding = false) {
+    if (forAdding && token === '-') {
+        return array.length;
+    }
+    const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : -1;
+    if (index < 0 || index > array.length || (index == array.length && !forAdding)) {
+        throw new PatchError(`No index ${token}`, operation);
+    }
+    return index;
+}
+
+function valueAt(document: any, tokens: string[], operation: PatchOperation): any {
+    return tokens.reduce((value, token) => {
+        if (Array.isArray(value)) {
+            return value[arrayIndex(value, token, operation)];
+        }
+        if (typeof value != 'object' || value === null || !value.hasOwnProperty(token)) {
+            throw new PatchError(`No ${token}`, operation);
+        }
+        return value[token];
+    }, document);
+}
+
+/**
+ * Copy the containers along the path to the last token's parent, and change that parent.
+ */
+function changeAt(document: any, tokens: string[], operation: PatchOperation, change: (parent: any) => void): any {
+    const parent = valueAt(document, tokens.slice(0, -1), operation);
+    if (typeof parent != 'object' || parent === null) {
+        throw new PatchError('Not a container', operation);
+    }
+    const copy = Array.isArray(parent) ? parent.slice() : {...parent};
+    change(copy);
+    if (tokens.length == 1) {
+        return copy;
+    }
+    return changeAt(document, tokens.slice(0, -1), operation, grandparent => {
+        const token = tokens[tokens.length - 2];
+        grandparent[Array.isArray(grandparent) ? arrayIndex(grandparent, token, operation) : token] = copy;
+    });
+}
+
+function addValue(document: any, tokens: string[], value: any, operation: PatchOperation): any {
+    if (!tokens.length) {
+        return value;
+    }
+    const token = tokens[tokens.length - 1];
+    return changeAt(document, tokens, operation, parent => {
+        if (Array.isArray(parent)) {
+            parent.splice(arrayIndex(parent, token, operation, true), 0, value);
+        } else {
+            parent[token] = value;
+        }
+    });
+}
+
+function removeValue(document: any, tokens: string[], operation: PatchOperation): any {
+    if (!tokens.length) {
+        return undefined;
+    }
+    valueAt(document, tokens, operation);
+    const token = tokens[tokens.length - 1];
+    return changeAt(document, tokens, operation, parent => {
+        if (Array.isArray(parent)) {
+            parent.splice(arrayIndex(parent, token, operation), 1);
+        } else {
+            delete parent[token];
+        }
+    });
+}
@@ -1,6 +1,18 @@
 import * as React from 'react';
-import {deepCompare} from "./helpers";
-import JsonApi from "./json-api";
+import {
+    configureDefaults as configureResourceDefaults,
+    ResourceOptions,
+    ResourceState,
+    RevalidationOptions,
+    useResource
+} from "./use-resource";
+import {PageControls, PaginationOptions, usePagedResource} from "./use-paged-resource";
+import {ResourceSpecs, useResources} from "./use-resources";
+import {JsonApiError} from "./json-api-error";
+import {useSuspenseResource} from "./suspense";
+import {applyUpdate, RealtimeOptions, useRealtime} from "./realtime";
+import {PatchError} from "./json-patch";
+import {getUrl} from "./json-api";
 import generatePath from "./generate-path";
 
 /**
@@ -73,10 +85,42 @@ import generatePath from "./generate-path";
  *
  *     <ComponentLoader onMessage={message => doSomething(message)} />
  *
+ * Following each request
+ *
+ *   <ComponentLoader onLoadStart={() => ...} onLoad={data => ...} onCancel={() => ...} />
+ *
+ *   onLoad receives the data after the serverAdapter. onCancel is called when a request still in flight is abandoned,
+ *   because the query changed or the loader unmounted; a superseded request never changes what is displayed.
+ *
+ * Loading several resources
+ *
+ *   let SampleDetail = MultiLoaderHOC<{ sample: Sample, runs: Run[], qc: QcMetrics }, { sampleId: number }>({
+ *       sample: { url: '/samples/:id', getUrlParams: props => ({ id: props.sampleId }) },
+ *       runs: { url: '/runs', getApiQuery: props => ({ sample: props.sampleId }), renderOnEmptyResult: true },
+ *       qc: { url: '/qc/:runId', dependsOn: ['runs'], getUrlParams: (props, data) => ({ runId: data.runs[0].id }) }
+ *   })(Component)
+ *   <SampleDetail sampleId={1} />
+ *    => <Component sampleId={1} data={{ sample: {...}, runs: [...], qc: {...} }} errors={{}} loading={{...}} />
+ *
+ *   One loader is shown until every resource has arrived, and the errors of all resources which failed are shown
+ *   together. With renderPartial, the component is rendered straight away instead, and left to check data, errors
+ *   and loading for each resource itself.
+ *
+ * Keeping the data fresh
+ *
+ *   let ComponentLoader = LoaderHOC<ResultType>(
+ *       url,
+ *       { refreshInterval: 5000, revalidateOnFocus: true, revalidateOnReconnect: true }
+ *   )(Component)
+ *    => <Component data=[...] isRefreshing={false} />
+ *
+ *   Polling pauses while the page is hidden. When the data is fetched again, whether by polling, onServerChange or
+ *   a change of query, the current data stays on screen with isRefreshing set, rather than the loader reappearing.
+ *   Call onServerChange(true) to clear the data and show the loader instead.
+ *
  *
  */
 
-let defaultServerAdapter = (x: any) => x;
 let defaultRenderError: (text: React.ReactChild) => JSX.Element =
     text => (
         <div>[ warning ]<div>{text}</div></div>
@@ -89,7 +133,7 @@ export function configureDefaults(options: {
     renderLoader?(): JSX.Element
 }) {
     if (options.serverAdapter) {
-        defaultServerAdapter = options.serverAdapter;
+        configureResourceDefaults({serverAdapter: options.serverAdapter});
     }
     if (options.renderError) {
         defaultRenderError = options.renderError;
@@ -99,30 +143,122 @@ export function configureDefaults(options: {
     }
 }
 
+function pageControls(
+    {page, totalCount, hasMore, loadingPage, loadMore, goToPage, cancelPageChange}: Partial<PageControls>
+): PageControls {
+    return page === undefined ? {} as PageControls :
+        {page, totalCount, hasMore, loadingPage, loadMore, goToPage, cancelPageChange};
+}
+
+/**
+ * The hooks a loader can be built on, in the shape they share; paginated loaders add their page controls.
+ */
+type LoaderHook<ResultType> = (url: string, query: any, options: ResourceOptions<ResultType>) =>
+    ResourceState<ResultType> & Partial<PageControls>;
+
+/**
+ * usePagedResource, with the loader's pagination options.
+ */
+function pagedLoader<ItemType>(pagination: PaginationOptions): LoaderHook<ItemType[]> {
+    return (url, query, options) => usePagedResource<ItemType>(url, query, {...options, pagination});
+}
+
+/**
+ * useSuspenseResource in the shape of useResource's result. It only returns once the data is there.
+ */
+function useSuspenseLoader<ResultType>(
+    url: string,
+    query: any,
+    options: ResourceOptions<ResultType>
+): ResourceState<ResultType> {
+    const {data, reload} = useSuspenseResource(url, query, options);
+    return {data, loading: false, isRefreshing: false, reload};
+}
+
+/**
+ * The options of LoaderHOC, apart from pagination (see PagedLoaderOptions).
+ */
+export interface LoaderOptions<ResultType, PassthruProps = {}, ApiParams = DefaultApiParams>
+    extends RevalidationOptions {
+    serverAdapter?: (response: any) => ResultType;
+    getApiQuery?: (params: PassthruProps & ApiQueryShorthand<ApiParams>) => ApiParams;
+    getUrlParams?: (params: Readonly<PassthruProps & ApiQueryShorthand<ApiParams>>) => any;
+    renderOnEmptyResult?: true;
+    renderError?(text: React.ReactChild): React.ElementType;
+    renderLoader?(): React.ElementType;
+    suspense?: boolean;
+    versionHeader?: string;
+    realtime?: boolean | RealtimeOptions;
+}
+
+/**
+ * A paginated loader's ResultType is the list of its items.
+ */
+export interface PagedLoaderOptions<ResultType extends any[], PassthruProps = {}, ApiParams = DefaultApiParams>
+    extends LoaderOptions<ResultType, PassthruProps, ApiParams> {
+    pagination: PaginationOptions;
+}
+
+// onLoad can't take a ResultType here without TypeScript finding a circular constraint on the Display type
+type LoaderBaseProps<PassthruProps> = PassthruProps & ServerHooks & {
+    onServerChange?(): any,
+    onLoadStart?(): any,
+    onLoad?(data: any): any,
+    onCancel?(): any
+};
+
+/**
+ * What LoaderHOC returns: a function which wraps a component in a loader.
+ */
+export type Loader<ResultType, PassthruProps, ApiParams> = <T extends React.ElementType<
+    LoaderBaseProps<PassthruProps> & ApiParams &
+    { data: ResultType, isRefreshing: boolean, version?: string } & Partial<PageControls>
+>>(Display: T) => (props: Readonly<LoaderBaseProps<PassthruProps> & ApiQueryShorthand<ApiParams>>) =>
+    JSX.Element | React.ElementType;
+
+export default function LoaderHOC<
+            ResultType extends any[],
+            PassthruProps = {},
+            ApiParams extends {} = DefaultApiParams
+>(
+    apiUrl: string,
+    options: PagedLoaderOptions<ResultType, PassthruProps, ApiParams>
+): Loader<ResultType, PassthruProps, ApiParams>;
 export default function LoaderHOC<
             ResultType,
             PassthruProps = {},
             ApiParams extends {} = DefaultApiParams
 >(
     apiUrl: string,
-    options: {
-        serverAdapter?: (response: any) => ResultType,
-        getApiQuery?: (params: PassthruProps & ApiQueryShorthand<ApiParams>) => ApiParams,
-        getUrlParams?: (params: Readonly<PassthruProps & ApiQueryShorthand<ApiParams>>) => any,
-        renderOnEmptyResult?: true,
-        renderError?(text: React.ReactChild): React.ElementType,
-        renderLoader?(): React.ElementType
-    } = {}
+    options?: LoaderOptions<ResultType, PassthruProps, ApiParams>
+): Loader<ResultType, PassthruProps, ApiParams>;
+export default function LoaderHOC(
+    apiUrl: string,
+    options: LoaderOptions<{}, {}, {}> | PagedLoaderOptions<{}[], {}, {}> = {}
 ) {
-    type BaseProps = PassthruProps & ServerHooks & { onServerChange?(): any, onLoad?(): any };
+    if (isPaged(options)) {
+        return makeLoader(apiUrl, options, pagedLoader(options.pagination));
+    }
+    return makeLoader(apiUrl, options, options.suspense ? useSuspenseLoader : useResource);
+}
+
+function isPaged(
+    options: LoaderOptions<{}, {}, {}> | PagedLoaderOptions<{}[], {}, {}>
+): options is PagedLoaderOptions<{}[], {}, {}> {
+    return 'pagination' in options && !!options.pagination;
+}
+
+function makeLoader<ResultType, PassthruProps, ApiParams>(
+    apiUrl: string,
+    options: LoaderOptions<ResultType, PassthruProps, ApiParams>,
+    useLoader: LoaderHook<ResultType>
+): Loader<ResultType, PassthruProps, ApiParams> {
+    type BaseProps = LoaderBaseProps<PassthruProps>;
     type RendererProps = BaseProps & ApiParams;
     type InnerProps = BaseProps & ApiQueryShorthand<ApiParams>;
-    type InnerState = { data?: ResultType; errorStatus?: string; }
-    type OutputType = { data: ResultType };
+    type OutputType = { data: ResultType, isRefreshing: boolean, version?: string } & Partial<PageControls>;
     type ElementType = React.ElementType<RendererProps & OutputType>;
 
-    const serverAdapter: (response: any) => ResultType =
-        options.serverAdapter || (x => x);
     const getApiQuery: <T extends Readonly<InnerProps>>(props: T) => T extends {apiQuery: ApiParams} ? ApiParams : DefaultApiParams =
         options.getApiQuery || (({id, apiQuery}: any) => apiQuery ? apiQuery : { id });
     const getUrlParams = options.getUrlParams || (() => ({}));
@@ -130,78 +266,132 @@ export default function LoaderHOC<
     const renderLoader = options.renderLoader || defaultRenderLoader;
 
     return function<T extends ElementType>(Display: T) {
-        return class extends React.Component<InnerProps, InnerState> {
-            state: InnerState = {};
-            componentWillMount() {
-                this.load(this.props);
-            }
-            componentWillReceiveProps(next: Readonly<InnerProps>) {
-                if (
-                    !deepCompare.apply(null, [this.props, next].map(getApiQuery)) ||
-                    !deepCompare.apply(null, [this.props, next].map(getUrlParams))
-                ) {
-                    // console.log('api query changed');
-                    this.setState({ data: null });
-                    this.load(next);
+        return (props: Readonly<InnerProps>) => {
+            const resource = useLoader(apiUrl, getApiQuery(props), {
+                serverAdapter: options.serverAdapter,
+                urlParams: getUrlParams(props),
+                renderOnEmptyResult: options.renderOnEmptyResult,
+                onError: props.onError,
+                onLoadStart: props.onLoadStart,
+                onLoad: props.onLoad,
+                onCancel: props.onCancel,
+                refreshInterval: options.refreshInterval,
+                revalidateOnFocus: options.revalidateOnFocus,
+                revalidateOnReconnect: options.revalidateOnReconnect,
+                versionHeader: options.versionHeader
+            });
+            const {data, error, isRefreshing, version, reload} = resource;
+            const onServerChange = (clearData?: boolean) => {
+                reload(clearData);
+                props.onServerChange && props.onServerChange();
+            };
+            const resourceUrl = options.realtime ?
+                getUrl(generatePath(apiUrl, getUrlParams(props)), getApiQuery(props)) :
+                null;
+            // the data with the updates applied so far, including those not yet rendered
+            const live = React.useRef(data);
+            live.current = data;
+            useRealtime(resourceUrl, options.realtime, update => {
+                // paginated and suspense loaders can't change their data in place
+                if (update.type == 'reload' || !resource.mutate) {
+                    onServerChange();
+                    return;
                 }
-            }
-            load(props: Readonly<InnerProps> = this.props) {
-                const {onError} = props;
-                const computedApiQuery = getApiQuery(props);
-                const computedUrl = generatePath(apiUrl, getUrlParams(props));
-
-                let promise = JsonApi.get(computedUrl, computedApiQuery).then(
-                    response => this.setState({
-                        data: serverAdapter? serverAdapter(response) : response
-                    }),
-                    errorStatus => {
-                        if (onError) {
-                            if (onError(errorStatus) !== false) {
-                                this.setState({errorStatus});
-                            }
-                        } else {
-                            this.setState({errorStatus});
-                        }
+                if (live.current == null) {
+                    // the data is still loading, and will include the update
+                    return;
+                }
+                let updated: ResultType;
+                try {
+                    updated = applyUpdate(live.current, update, options.serverAdapter);
+                } catch (e) {
+                    if (!(e instanceof PatchError)) {
+                        throw e;
                     }
-                );
-                if (this.props.onLoad) {
-                    promise.then(this.props.onLoad)
+                    // a patch which doesn't apply means that updates were missed, so the data is fetched again
+                    onServerChange();
+                    return;
                 }
+                live.current = updated;
+                resource.mutate(() => updated);
+            });
+
+            if (data) {
+                // See this issue for why "any" is necessary here:
+                // https://github.com/Microsoft/TypeScript/issues/10727
+                const {apiQuery, id, onServerChange: _, children, ...innerProps} = props as any;
+
+                return React.createElement(
+                    Display,
+                    {
+                        data: data,
+                        ...getApiQuery(props),
+                        ...innerProps,
+                        ...pageControls(resource),
+                        isRefreshing,
+                        version,
+                        onServerChange
+                    }
+                );
             }
-            onServerChange = (clearData?: boolean) => {
-                if (clearData) {
-                    this.setState({ data: null })
-                }
-                this.load();
-                this.props.onServerChange && this.props.onServerChange();
+            if (error) {
+                return renderError(`${error}`);
+            }
+            return renderLoader();
+        };
+    }
+}
+
+export function MultiLoaderHOC<Results extends {}, PassthruProps = {}>(
+    resources: ResourceSpecs<Results, Readonly<PassthruProps & ServerHooks>>,
+    options: {
+        renderPartial?: boolean,
+        renderError?(text: React.ReactChild): React.ElementType,
+        renderLoader?(): React.ElementType
+    } & RevalidationOptions = {}
+) {
+    type InnerProps = PassthruProps & ServerHooks & { onServerChange?(): any };
+    type OutputType = {
+        data: Results,
+        errors: Partial<Record<keyof Results, JsonApiError|string>>,
+        loading: Record<keyof Results, boolean>,
+        isRefreshing: boolean
+    };
+    type ElementType = React.ComponentType<InnerProps & OutputType>;
+
+    const renderError = options.renderError || defaultRenderError;
+    const renderLoader = options.renderLoader || defaultRenderLoader;
+
+    return function<T extends ElementType>(Display: T) {
+        return (props: Readonly<InnerProps>) => {
+            const {data, errors, loading, ready, isRefreshing, reload} = useResources(resources, props, {
+                onError: props.onError && ((error: JsonApiError|string) => props.onError(error)),
+                refreshInterval: options.refreshInterval,
+                revalidateOnFocus: options.revalidateOnFocus,
+                revalidateOnReconnect: options.revalidateOnReconnect
+            });
+            const onServerChange = (clearData?: boolean) => {
+                reload(clearData);
+                props.onServerChange && props.onServerChange();
             };
-            render() {
-                const {data, errorStatus} = this.state;
 
-                if (data) {
-                    if (Array.isArray(data) && data.length == 0 && !options.renderOnEmptyResult) {
-                        return renderError('No results');
-                    }
+            if (ready || options.renderPartial) {
+                const {onServerChange: _, children, ...innerProps} = props as any;
 
-                    // See this issue for why "any" is necessary here:
-                    // https://github.com/Microsoft/TypeScript/issues/10727
-                    const {apiQuery, id, onServerChange, children, ...innerProps} = this.props as any;
-
-                    return React.createElement(
-                        Display,
-                        {
-                            data: data,
-                            ...getApiQuery(this.props),
-                            ...innerProps,
-                            onServerChange: this.onServerChange
-                        }
-                    );
-                }
-                if (errorStatus) {
-                    return renderError(errorStatus);
-                }
-                return renderLoader();
+                return React.createElement(
+                    Display,
+                    {...innerProps, data, errors, loading, isRefreshing, onServerChange}
+                );
+            }
+            const failed = Object.keys(errors) as (keyof Results)[];
+            if (failed.length) {
+                return renderError(
+                    <React.Fragment>
+                        {failed.map(name => <div key={name as string}>{name}: {`${errors[name]}`}</div>)}
+                    </React.Fragment>
+                );
             }
-        }
+            return renderLoader();
+        };
     }
 }
@@ -0,0 +1,244 @@
+import * as React from 'react';
+import {History, Location} from "history";
+import {urlFor} from "./urlFor";
+import {isRouteName} from "./routes";
+import {
+    Notification,
+    NotificationAction,
+    NotificationInput,
+    notificationKey,
+    notify,
+    Severity,
+    subscribe
+} from "./notifications";
+
+/**
+ * @docs
+ *
+ * Showing messages as notifications
+ *
+ *   <NotificationProvider history={history}>
+ *       <App />
+ *   </NotificationProvider>
+ *
+ *   configureDefaults({serverHandler: NotificationServerHandler});   // ComposerHOC's
+ *   <SampleLoader onError={notifyError} onMessage={notify} />
+ *   JsonApi.post('/samples/1/archive', {}, {notify: true});
+ *   notify({message: 'Run queued', severity: 'success', actions: [{label: 'Undo', onClick: undo}]});
+ *
+ * The provider shows the notifications posted anywhere below or outside it, most recent last, and dismisses each after
+ * its severity's timeout (errors stay until they are dismissed). A notification posted again while it is shown is
+ * counted rather than repeated. Given a history, the provider also shows the serverMessage or errorMessage that
+ * JsonApi's routeWith leaves in the location's state, and then removes them from it, and redirects by navigating.
+ */
+
+export interface NotificationsState {
+    notifications: Notification[];
+    notify(input: NotificationInput | string): void;
+    dismiss(id: number): void;
+    dismissAll(): void;
+}
+
+export interface NotificationsProps extends NotificationsState {
+    /**
+     * Perform an action, including its redirect, and dismiss its notification.
+     */
+    act(notification: Notification, action: NotificationAction): void;
+}
+
+export interface NotificationProviderProps {
+    /**
+     * To pick up messages from location state, and to follow redirects without reloading the page.
+     */
+    history?: History;
+
+    /**
+     * Milliseconds before notifications of each severity are dismissed, or false to keep them until they are.
+     */
+    timeouts?: Partial<Record<Severity, number | false>>;
+
+    /**
+     * The most notifications shown at once; the oldest make way for new ones.
+     */
+    max?: number;
+
+    /**
+     * Renders the notifications, in place of DefaultNotifications.
+     */
+    render?: React.ComponentType<NotificationsProps>;
+}
+
+const defaultTimeouts: Record<Severity, number | false> = {success: 5000, info: 5000, warning: 10000, error: false};
+
+/**
+ * A url as it is, or the url for a route name or urlFor parameters. urlFor takes the controller and action out of
+ * its parameters, so it is given a copy, leaving the action's own to be read again on the next render.
+ */
+function redirectUrl(redirectTo: string | any): string {
+    if (typeof redirectTo == 'string') {
+        return isRouteName(redirectTo) ? urlFor(redirectTo) : redirectTo;
+    }
+    return urlFor({...redirectTo});
+}
+
+const NotificationContext = React.createContext<NotificationsState>({
+    notifications: [],
+    notify,
+    dismiss: () => null,
+    dismissAll: () => null
+});
+
+/**
+ * The notifications of the nearest provider, and functions to post and dismiss them.
+ */
+export function useNotifications(): NotificationsState {
+    return React.useContext(NotificationContext);
+}
+
+export const DefaultNotifications = (({notifications, dismiss, act}) => (
+    <div>
+        {notifications.map(notification =>
+            <div key={notification.id} className={`notification ${notification.severity}`}
+                 style={{whiteSpace: 'pre-wrap'}}>
+                <a onClick={() => dismiss(notification.id)}>[ x ]</a>
+                {notification.message}
+                {notification.count > 1 && ` (${notification.count})`}
+                {notification.actions.map((action, i) =>
+                    <div key={i}>
+                        <a href={action.redirectTo ? redirectUrl(action.redirectTo) : undefined}
+                           onClick={e => {
+                               e.preventDefault();
+                               act(notification, action);
+                           }}>
+                            {action.label}
+                        </a>
+                    </div>
+                )}
+            </div>
+        )}
+    </div>
+)) as React.FC<NotificationsProps>;
+
+export const NotificationProvider: React.FC<NotificationProviderProps> = props => {
+    const {history, max = 5, render: Render = DefaultNotifications} = props;
+    const [notifications, setNotifications] = React.useState<Notification[]>([]);
+    const timers = React.useRef<Record<number, any>>({});
+    const nextId = React.useRef(1);
+
+    // posting reads the list as it stands, including changes not yet rendered
+    const shown = React.useRef<Notification[]>([]);
+    const show = (list: Notification[]) => {
+        shown.current = list;
+        setNotifications(list);
+    };
+
+    // the timeouts are usually a new object on every render, and shouldn't restart the timers
+    const latest = React.useRef(props);
+    latest.current = props;
+
+    const dismiss = React.useCallback((id: number) => {
+        clearTimeout(timers.current[id]);
+        delete timers.current[id];
+        show(shown.current.filter(notification => notification.id !== id));
+    }, []);
+
+    const schedule = (notification: Notification) => {
+        const timeout = notification.timeout !== undefined ? notification.timeout :
+            {...defaultTimeouts, ...latest.current.timeouts}[notification.severity];
+        clearTimeout(timers.current[notification.id]);
+        if (timeout !== false) {
+            timers.current[notification.id] = setTimeout(() => dismiss(notification.id), timeout);
+        }
+    };
+
+    const post = React.useCallback((input: NotificationInput | string) => {
+        const posted: NotificationInput = typeof input == 'string' ? {message: input} : input;
+        const severity = posted.severity || 'info';
+        const key = notificationKey({...posted, severity});
+        const list = shown.current;
+        const repeated = key !== null && list.filter(notification => notificationKey(notification) === key)[0];
+        if (repeated) {
+            const counted = {...repeated, count: repeated.count + 1};
+            schedule(counted);
+            show(list.map(notification => notification === repeated ? counted : notification));
+            return;
+        }
+        const actions = (posted.actions || []).concat(
+            posted.redirectTo ? [{label: 'Continue', redirectTo: posted.redirectTo}] : []
+        );
+        const added: Notification = {...posted, id: nextId.current++, severity, key, actions, count: 1};
+        schedule(added);
+        const kept = list.concat(added);
+        kept.slice(0, Math.max(0, kept.length - max)).forEach(old => clearTimeout(timers.current[old.id]));
+        show(kept.slice(-max));
+    }, [max]);
+
+    React.useEffect(() => subscribe(post), [post]);
+
+    React.useEffect(() => () => {
+        for (let id in timers.current) if (timers.current.hasOwnProperty(id)) {
+            clearTimeout(timers.current[id]);
+        }
+    }, []);
+
+    // messages left in location state by JsonApi's routeWith
+    React.useEffect(() => {
+        if (!history) {
+            return;
+        }
+        const pickUp = (location: Location) => {
+            const state: any = location.state;
+            if (state && (state.serverMessage || state.errorMessage)) {
+                const {serverMessage, errorMessage, ...rest} = state;
+                serverMessage && post({message: serverMessage, severity: 'success'});
+                errorMessage && post({message: errorMessage, severity: 'error'});
+                history.replace({...location, state: Object.keys(rest).length ? rest : undefined});
+            }
+        };
+        pickUp(history.location);
+        return history.listen(pickUp);
+    }, [history, post]);
+
+    const dismissAll = () => {
+        for (let id in timers.current) if (timers.current.hasOwnProperty(id)) {
+            clearTimeout(timers.current[id]);
+        }
+        timers.current = {};
+        show([]);
+    };
+
+    const act = (notification: Notification, action: NotificationAction) => {
+        action.onClick && action.onClick();
+        if (action.redirectTo) {
+            const url = redirectUrl(action.redirectTo);
+            if (history) {
+                history.push(url);
+            } else if (typeof window != 'undefined') {
+                window.location.assign(url);
+            }
+        }
+        dismiss(notification.id);
+    };
+
+    const state: NotificationsState = {notifications, notify: post, dismiss, dismissAll};
+    return (
+        <NotificationContext.Provider value={state}>
+            {props.children}
+            <Render {...state} act={act} />
+        </NotificationContext.Provider>
+    );
+};
+
+/**
+ * A ComposerHOC ServerHandler which posts the composer's messages as notifications, instead of showing them in place.
+ */
+export const NotificationServerHandler = (({serverMessage, errorMessage, redirectTo, clearMessages}) => {
+    React.useEffect(() => {
+        if (serverMessage || errorMessage) {
+            serverMessage && notify({message: serverMessage, severity: 'success', redirectTo});
+            errorMessage && notify({message: errorMessage, severity: 'error', redirectTo});
+            clearMessages();
+        }
+    }, [serverMessage, errorMessage]);
+    return null;
+}) as React.FC<ServerComms & { clearMessages: () => void, id?: number }>;
@@ -0,0 +1,104 @@
+import {JsonApiError} from "./json-api-error";
+
+/**
+ * Messages for a NotificationProvider to show. They can be posted from anywhere, including outside React (JsonApi
+ * calls with the notify option do so); they go to every mounted provider, or wait for the first one to mount.
+ */
+
+export type Severity = 'success' | 'info' | 'warning' | 'error';
+
+export interface NotificationAction {
+    label: string;
+    onClick?(): void;
+
+    /**
+     * Somewhere to go, as for a ComposerHOC's redirectTo: a url, or parameters for urlFor.
+     */
+    redirectTo?: string | any;
+}
+
+export interface NotificationInput {
+    message: ReactChild;
+
+    /**
+     * Defaults to 'info'.
+     */
+    severity?: Severity;
+
+    /**
+     * Milliseconds before the notification is dismissed, or false to keep it until it is dismissed. Defaults to the
+     * provider's timeout for the severity.
+     */
+    timeout?: number | false;
+
+    /**
+     * Notifications with the same key are shown once, counting the repeats. Defaults to the severity and the message,
+     * if it is text.
+     */
+    key?: string;
+    actions?: NotificationAction[];
+
+    /**
+     * Adds a Continue action which goes there.
+     */
+    redirectTo?: string | any;
+}
+
+export interface Notification extends NotificationInput {
+    id: number;
+    severity: Severity;
+    actions: NotificationAction[];
+
+    /**
+     * How many times it has been posted while shown.
+     */
+    count: number;
+}
+
+type Listener = (input: NotificationInput) => void;
+
+let listeners: Listener[] = [];
+
+// posted while no provider was mounted; only the latest few are kept, since on the server none ever will be
+const waiting: NotificationInput[] = [];
+const waitingLimit = 20;
+
+export function notify(input: NotificationInput | string) {
+    const notification = typeof input == 'string' ? {message: input} : input;
+    if (listeners.length) {
+        listeners.forEach(listener => listener(notification));
+    } else {
+        waiting.push(notification);
+        waiting.splice(0, waiting.length - waitingLimit);
+    }
+}
+
+/**
+ * Post a failure, such as a loader's onError receives.
+ */
+export function notifyError(error: JsonApiError | string) {
+    notify({message: `${error}`, severity: 'error'});
+}
+
+/**
+ * Receive every notification posted from now on, and any waiting for a listener.
+ * @returns a function which stops them
+ */
+export function subscribe(listener: Listener): () => void {
+    listeners = listeners.concat(listener);
+    waiting.splice(0).forEach(listener);
+    return () => {
+        listeners = listeners.filter(l => l !== listener);
+    };
+}
+
+/**
+ * The key under which a notification is deduplicated, if it has one.
+ */
+export function notificationKey(input: NotificationInput): string {
+    if (input.key !== undefined) {
+        return input.key;
+    }
+    const {message} = input;
+    return typeof message == 'string' || typeof message == 'number' ? `${input.severity || 'info'}:${message}` : null;
+}
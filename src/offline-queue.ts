@@ -0,0 +1,304 @@
+import JsonApi, {addInterceptor, Interceptor, JsonApiRequest, Method} from "./json-api";
+import {JsonApiError} from "./json-api-error";
+import {containsBinary} from "./form-data";
+import {DraftStorage, memoryStorage} from "./use-draft";
+
+/**
+ * @docs
+ *
+ * Queueing changes while offline
+ *
+ *   enableOfflineQueue({
+ *       storage: localStorage,
+ *       onSent: (response, call) => notify(`Saved ${call.url}`),
+ *       onError: (error, call) => notifyError(error)
+ *   });
+ *
+ *   JsonApi.patch('/samples/1', {name}).catch(error => error.kind == 'queued' && showQueued());
+ *
+ * Once enabled, a call which changes something (POST, PATCH, PUT, DELETE, LINK or UNLINK) and can't reach the server
+ * (or times out), or is made while the browser knows it is offline, is stored and fails with a QueuedError (of kind
+ * 'queued') instead. So is one made while earlier calls are still waiting, so that none overtakes them. Stored calls
+ * are sent again, in the order they were made, when the browser comes back online, when the queue is enabled (so calls
+ * stored before the page was closed are sent too), and when replayQueue() is called. They are stored as they were
+ * made, and pass through the interceptors again when they are sent, so that headers such as tokens are current.
+ *
+ * Every changing call carries an Idempotency-Key header, which is sent again with it from the queue, so that a server
+ * can recognise a call it received before the connection dropped. A call which is refused with a 409 or 412 is kept
+ * as a conflict, and one which is refused otherwise is kept as failed, for retryQueued() or discardQueued(); the calls
+ * after it are still sent. Calls whose data includes files can't be stored, and fail as usual.
+ */
+
+export interface QueuedCall {
+    id: string;
+    method: Method;
+    url: string;
+    data: any;
+    headers: Record<string, string>;
+    queuedAt: number;
+    attempts: number;
+
+    /**
+     * Waiting to be sent, or refused by the server: with a 409 or 412 (a conflict), or otherwise.
+     */
+    status: 'waiting' | 'conflict' | 'failed';
+
+    /**
+     * Why the server refused it.
+     */
+    error?: string;
+}
+
+export interface QueueCallbacks {
+    onSent?(response: any, call: QueuedCall): void;
+
+    /**
+     * Called for a 409 or 412 response. Without it, conflicts go to onError.
+     */
+    onConflict?(error: JsonApiError, call: QueuedCall): void;
+    onError?(error: JsonApiError | string, call: QueuedCall): void;
+}
+
+export interface OfflineQueueOptions extends QueueCallbacks {
+    /**
+     * Defaults to localStorage.
+     */
+    storage?: DraftStorage;
+
+    /**
+     * The storage key of the queue.
+     */
+    key?: string;
+    idempotencyHeader?: string;
+}
+
+/**
+ * The rejection of a call which was queued.
+ */
+export class QueuedError extends JsonApiError {
+    call: QueuedCall;
+
+    constructor(call: QueuedCall) {
+        super('Could not reach the server; the change will be sent when the connection returns', {kind: 'queued'});
+        this.call = call;
+    }
+}
+
+const queueMethods: Method[] = ['POST', 'PATCH', 'PUT', 'DELETE', 'LINK', 'UNLINK'];
+
+let settings: OfflineQueueOptions = null;
+let calls: QueuedCall[] = [];
+let listeners: ((calls: QueuedCall[]) => void)[] = [];
+let replaying: Promise<void> = null;
+let replayingAgain: Promise<void> = null;
+
+// the callbacks of calls made on this page; those of calls stored earlier were lost with it
+const callbacks: Record<string, QueueCallbacks> = {};
+
+function newId() {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function isOffline() {
+    return typeof navigator != 'undefined' && navigator.onLine === false;
+}
+
+function changed(updated: QueuedCall[]) {
+    calls = updated;
+    listeners.forEach(listener => listener(calls));
+    if (settings) {
+        const {storage, key} = settings;
+        new Promise<void>(resolve => resolve(storage.setItem(key, JSON.stringify(calls)))).catch((): void => null);
+    }
+}
+
+function queueable(request: JsonApiRequest) {
+    return queueMethods.indexOf(request.method) >= 0 && request.options.queue !== false && !containsBinary(request.data);
+}
+
+function enqueue(request: JsonApiRequest): Promise<never> {
+    const original = request.original || request;
+    const header = settings.idempotencyHeader;
+    const id = request.headers[header] || newId();
+    const call: QueuedCall = {
+        id,
+        method: original.method,
+        url: original.url,
+        data: original.data,
+        headers: {...original.headers, [header]: id},
+        queuedAt: Date.now(),
+        attempts: 1,
+        status: 'waiting'
+    };
+    if (typeof request.options.queue == 'object') {
+        callbacks[call.id] = request.options.queue;
+    }
+    changed(calls.concat(call));
+    return Promise.reject<never>(new QueuedError(call));
+}
+
+const interceptor: Interceptor = {
+    request: request => {
+        if (!queueable(request)) {
+            return request;
+        }
+        const header = settings.idempotencyHeader;
+        const queued = {...request, headers: {...request.headers, [header]: request.headers[header] || newId()}};
+        if (calls.some(call => call.status == 'waiting')) {
+            // behind the calls still waiting, which are sent first if they can be
+            const queuing = enqueue(queued);
+            isOffline() || replayQueue();
+            return queuing;
+        }
+        return isOffline() ? enqueue(queued) : queued;
+    },
+    error: (error, request) => (error.kind == 'network' || error.kind == 'timeout') && queueable(request) ?
+        enqueue(request) :
+        Promise.reject(error)
+};
+
+let disable = () => {};
+
+const onOnline = () => {
+    replayQueue();
+};
+
+/**
+ * Start queueing changes made while offline, and send those stored earlier.
+ * @returns a function which stops queueing; stored calls are kept for next time
+ */
+export function enableOfflineQueue(options: OfflineQueueOptions = {}): () => void {
+    disableOfflineQueue();
+    settings = {
+        storage: typeof localStorage != 'undefined' ? localStorage : memoryStorage(),
+        key: 'offline-queue',
+        idempotencyHeader: 'Idempotency-Key',
+        ...options
+    };
+    const removeInterceptor = addInterceptor(interceptor);
+    if (typeof window != 'undefined') {
+        window.addEventListener('online', onOnline);
+    }
+    const {storage, key} = settings;
+    const loading = new Promise<string>(resolve => resolve(storage.getItem(key))).then(json => {
+        const stored: QueuedCall[] = JSON.parse(json || '[]');
+        const ids = calls.map(call => call.id);
+        changed(stored.filter(call => ids.indexOf(call.id) < 0).concat(calls));
+    }).catch((): void => null);
+    loading.then(() => {
+        isOffline() || replayQueue();
+    });
+
+    disable = () => {
+        removeInterceptor();
+        if (typeof window != 'undefined') {
+            window.removeEventListener('online', onOnline);
+        }
+        settings = null;
+    };
+    return disableOfflineQueue;
+}
+
+export function disableOfflineQueue() {
+    disable();
+    disable = () => {};
+}
+
+/**
+ * The calls stored, in the order they will be sent.
+ */
+export function queuedCalls(): QueuedCall[] {
+    return calls;
+}
+
+/**
+ * Receive the queue whenever it changes.
+ * @returns a function which stops them
+ */
+export function subscribeToQueue(listener: (calls: QueuedCall[]) => void): () => void {
+    listeners = listeners.concat(listener);
+    return () => {
+        listeners = listeners.filter(l => l !== listener);
+    };
+}
+
+function remove(id: string) {
+    delete callbacks[id];
+    changed(calls.filter(call => call.id !== id));
+}
+
+function update(id: string, changes: Partial<QueuedCall>) {
+    changed(calls.map(call => call.id === id ? {...call, ...changes} : call));
+}
+
+/**
+ * Send one call, resolving whether the next may be sent, which it may unless the server still can't be reached.
+ */
+function replay(call: QueuedCall): Promise<boolean> {
+    const own = callbacks[call.id] || {};
+    const shared = settings || {};
+    const method = call.method.toLowerCase() as 'post';
+    return JsonApi[method](call.url, call.data, {headers: call.headers, queue: false, retry: false}).then(
+        (response: any) => {
+            remove(call.id);
+            own.onSent && own.onSent(response, call);
+            shared.onSent && shared.onSent(response, call);
+            return true;
+        },
+        (error: JsonApiError | string) => {
+            if (error instanceof JsonApiError && (error.kind == 'network' || error.kind == 'timeout')) {
+                update(call.id, {attempts: call.attempts + 1});
+                return false;
+            }
+            const conflict = error instanceof JsonApiError && (error.status == 409 || error.status == 412);
+            update(call.id, {status: conflict ? 'conflict' : 'failed', error: `${error}`, attempts: call.attempts + 1});
+            for (let handlers of [own, shared]) {
+                if (conflict && handlers.onConflict) {
+                    handlers.onConflict(error as JsonApiError, call);
+                } else if (handlers.onError) {
+                    handlers.onError(error, call);
+                }
+            }
+            return true;
+        }
+    );
+}
+
+/**
+ * Send the waiting calls in order, stopping if the server can't be reached. Resolves once done. Called while the calls
+ * are being sent, it sends them again once that is over, as that may have stopped before the connection returned.
+ */
+export function replayQueue(): Promise<void> {
+    if (replaying) {
+        if (!replayingAgain) {
+            replayingAgain = replaying.then(() => {
+                replayingAgain = null;
+                return replayQueue();
+            });
+        }
+        return replayingAgain;
+    }
+    const next = (): Promise<void> => {
+        const call = calls.filter(c => c.status == 'waiting')[0];
+        return call ? replay(call).then(more => more ? next() : undefined) : Promise.resolve();
+    };
+    replaying = next().then(() => {
+        replaying = null;
+    });
+    return replaying;
+}
+
+/**
+ * Send a call which the server refused again, or all of them, along with the waiting calls.
+ */
+export function retryQueued(id?: string): Promise<void> {
+    changed(calls.map(call => id === undefined || call.id === id ?
+        {...call, status: 'waiting' as 'waiting', error: undefined} :
+        call
+    ));
+    return replayQueue();
+}
+
+export function discardQueued(id: string) {
+    remove(id);
+}
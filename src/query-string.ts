@@ -0,0 +1,149 @@
+/**
+ * Query-string serialization for JsonApi GET parameters and urlFor.
+ *
+ * Nested objects always use bracket notation (range[min]=1&range[max]=5), and arrays of objects are indexed
+ * (runs[0][id]=1). Arrays of plain values are written according to `arrayFormat`:
+ *   brackets  ids[]=1&ids[]=2   (Rails)
+ *   repeat    ids=1&ids=2
+ *   comma     ids=1%2C2         (the historical JsonApi format, and the default)
+ * Null and undefined values are omitted.
+ */
+
+export type ArrayFormat = 'brackets' | 'repeat' | 'comma';
+
+export interface QueryFormat {
+    arrayFormat?: ArrayFormat;
+
+    /**
+     * 'iso' for Date#toISOString, 'timestamp' for milliseconds since the epoch, or a custom formatter.
+     */
+    dateFormat?: 'iso' | 'timestamp' | ((date: Date) => string);
+
+    /**
+     * 'string' for true/false, 'number' for 1/0.
+     */
+    booleanFormat?: 'string' | 'number';
+}
+
+let defaultFormat: QueryFormat = {
+    arrayFormat: 'comma',
+    dateFormat: 'iso',
+    booleanFormat: 'string'
+};
+
+export function configureDefaults(options: QueryFormat) {
+    defaultFormat = {...defaultFormat, ...options};
+}
+
+function isPlainValue(value: any) {
+    return value === null || typeof value != 'object' || value instanceof Date;
+}
+
+function formatValue(value: any, format: QueryFormat): string {
+    if (value instanceof Date) {
+        if (typeof format.dateFormat == 'function') {
+            return format.dateFormat(value);
+        }
+        return format.dateFormat === 'timestamp' ? `${value.getTime()}` : value.toISOString();
+    }
+    if (typeof value == 'boolean' && format.booleanFormat === 'number') {
+        return value ? '1' : '0';
+    }
+    return `${value}`;
+}
+
+function pairs(value: any, key: string, format: QueryFormat): [string, string][] {
+    if (value === null || value === undefined) {
+        return [];
+    }
+    if (Array.isArray(value)) {
+        if (value.every(isPlainValue)) {
+            const items = value.filter(item => item !== null && item !== undefined)
+                .map(item => formatValue(item, format));
+            if (format.arrayFormat === 'comma') {
+                return items.length ? [[key, items.join(',')]] : [];
+            }
+            const itemKey = format.arrayFormat === 'repeat' ? key : `${key}[]`;
+            return items.map(item => [itemKey, item] as [string, string]);
+        }
+        return value.reduce((result: [string, string][], item: any, index: number) =>
+            result.concat(pairs(item, `${key}[${index}]`, format)), []);
+    }
+    if (!isPlainValue(value)) {
+        return Object.keys(value).reduce((result: [string, string][], name: string) =>
+            result.concat(pairs(value[name], `${key}[${name}]`, format)), []);
+    }
+    return [[key, formatValue(value, format)]];
+}
+
+/**
+ * Keys are encoded segment by segment, leaving the brackets readable.
+ */
+function encodeKey(key: string) {
+    return key.replace(/[^\[\]]+/g, encodeURIComponent);
+}
+
+export function serializeQuery(obj: any, format: QueryFormat = {}): string {
+    const merged = {...defaultFormat, ...format};
+    let result: [string, string][] = [];
+    for (let key in obj) if (obj.hasOwnProperty(key)) {
+        result = result.concat(pairs(obj[key], key, merged));
+    }
+    return result.map(([key, value]) => `${encodeKey(key)}=${encodeURIComponent(value)}`).join('&');
+}
+
+function decode(component: string) {
+    return decodeURIComponent(component.replace(/\+/g, ' '));
+}
+
+// segments which would reach Object.prototype instead of a key of the result
+const unsafeSegments = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Assign a value at a bracketed path, creating arrays for numeric or empty segments and objects otherwise.
+ */
+function assign(target: any, path: string[], value: string) {
+    const [segment, ...rest] = path;
+    const key = segment === '' && Array.isArray(target) ? target.length : segment;
+    if (!rest.length) {
+        if (target[key] === undefined) {
+            target[key] = value;
+        } else if (Array.isArray(target[key])) {
+            target[key].push(value);
+        } else {
+            // a repeated key
+            target[key] = [target[key], value];
+        }
+        return;
+    }
+    if (target[key] === undefined || typeof target[key] != 'object') {
+        target[key] = /^\d*$/.test(rest[0]) ? [] : {};
+    }
+    assign(target[key], rest, value);
+}
+
+/**
+ * The reverse of serializeQuery. All values are parsed as strings. Comma-separated values are only split into arrays
+ * when the format passed says that arrayFormat is 'comma', whatever the default, since a plain value such as
+ * q=Smith, J may contain commas too. Keys with a __proto__, constructor or prototype segment are skipped.
+ * @param query a query string, with or without the leading '?'
+ */
+export function parseQuery(query: string, format: QueryFormat = {}): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (let part of query.replace(/^\?/, '').split('&')) if (part) {
+        const index = part.indexOf('=');
+        const rawKey = decode(index >= 0 ? part.substr(0, index) : part);
+        const value = index >= 0 ? decode(part.substr(index + 1)) : '';
+        const [, base, brackets] = rawKey.match(/^([^\[]*)((?:\[[^\]]*\])*)$/) || [null, rawKey, ''];
+        const path = [base].concat((brackets.match(/\[[^\]]*\]/g) || []).map(s => s.slice(1, -1)));
+        if (path.some(segment => unsafeSegments.indexOf(segment) >= 0)) {
+            continue;
+        }
+        if (format.arrayFormat === 'comma' && path.length === 1 && value.indexOf(',') >= 0) {
+            result[base] = value.split(',');
+        } else {
+            assign(result, path, value);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,269 @@
+import * as React from "react";
+import {RetryPolicy, retryDelay} from "./retry";
+import {applyPatch, PatchOperation} from "./json-patch";
+
+/**
+ * @docs
+ *
+ * Live updates over server-sent events or WebSockets
+ *
+ *   const RunStatus = LoaderHOC<Run>('/runs/:id', {getUrlParams: props => props, realtime: true})(Status);
+ *
+ * The loader subscribes to a channel named after its url and query (by default, the same url, as an EventSource),
+ * and applies each message to its data:
+ *
+ *   {"type": "replace", "data": {...}}         the data is replaced, through the loader's serverAdapter
+ *   {"type": "merge", "data": {...}}           fields are merged into the data, or records into a list by id
+ *   {"type": "patch", "operations": [...]}     a JSON Patch is applied to the data
+ *   {"type": "reload"}                         the loader reloads, as if onServerChange were called
+ *
+ * A message of any other shape replaces the data, and a patch which doesn't apply (after missed messages) reloads it.
+ * Loaders on the same channel share one connection, which is closed when the last of them unmounts. A dropped
+ * connection is opened again with a growing delay, and since messages may have been missed meanwhile, its loaders
+ * reload when it reopens.
+ */
+
+export type RealtimeUpdate =
+    { type: 'replace', data: any } |
+    { type: 'merge', data: any } |
+    { type: 'patch', operations: PatchOperation[] } |
+    { type: 'reload' };
+
+export interface RealtimeHandlers {
+    onOpen(): void;
+
+    /**
+     * Receives each message, as text or already parsed.
+     */
+    onMessage(message: any): void;
+
+    /**
+     * Called when the connection is lost or can't be made, but not after it is closed.
+     */
+    onClose(): void;
+}
+
+/**
+ * Opens a connection to a channel, and reports on it through the handlers.
+ * @returns a function which closes the connection
+ */
+export type RealtimeTransport = (channel: string, handlers: RealtimeHandlers) => () => void;
+
+export interface RealtimeOptions {
+    /**
+     * The channel for a resource's url, including its query. Defaults to the url itself.
+     */
+    channel?(url: string): string;
+    transport?: RealtimeTransport;
+
+    /**
+     * Translates a message into an update, for servers which send messages of their own shape.
+     */
+    toUpdate?(message: any): RealtimeUpdate;
+}
+
+/**
+ * Server-sent events, with an EventSource for each channel. Its own reconnection is replaced by ours.
+ */
+export const eventSourceTransport: RealtimeTransport = (channel, {onOpen, onMessage, onClose}) => {
+    const source = new EventSource(channel);
+    source.onopen = onOpen;
+    source.onmessage = event => onMessage(event.data);
+    source.onerror = () => {
+        source.close();
+        onClose();
+    };
+    return () => source.close();
+};
+
+/**
+ * A WebSocket for each channel. By default, the channel is taken as a url on the page's host.
+ */
+export function webSocketTransport(toUrl: (channel: string) => string = sameHostUrl): RealtimeTransport {
+    return (channel, {onOpen, onMessage, onClose}) => {
+        const socket = new WebSocket(toUrl(channel));
+        let closing = false;
+        socket.onopen = onOpen;
+        socket.onmessage = event => onMessage(event.data);
+        socket.onclose = () => closing || onClose();
+        return () => {
+            closing = true;
+            socket.close();
+        };
+    };
+}
+
+function sameHostUrl(channel: string) {
+    if (/^wss?:\/\//.test(channel)) {
+        return channel;
+    }
+    if (/^https?:\/\//.test(channel)) {
+        return channel.replace(/^http/, 'ws');
+    }
+    const {protocol, host} = window.location;
+    return `${protocol == 'https:' ? 'wss' : 'ws'}://${host}${channel}`;
+}
+
+let globalTransport: RealtimeTransport = null;
+let globalReconnect: RetryPolicy = {delay: 1000, factor: 2, maxDelay: 30 * 1000, jitter: 0.5};
+
+export function configureDefaults(options: {
+    transport?: RealtimeTransport,
+    reconnect?: RetryPolicy
+}) {
+    // null restores server-sent events
+    if (options.transport !== undefined) {
+        globalTransport = options.transport;
+    }
+    if (options.reconnect) {
+        globalReconnect = {...globalReconnect, ...options.reconnect};
+    }
+}
+
+export interface Subscriber {
+    onMessage(message: any): void;
+
+    /**
+     * Called when a dropped connection is open again.
+     */
+    onReconnect?(): void;
+}
+
+interface Connection {
+    subscribers: Subscriber[];
+    close?: () => void;
+    opened: boolean;
+    attempt: number;
+    timer?: any;
+}
+
+// by transport, then by channel, so that subscribers with different transports never share
+const connections = new Map<RealtimeTransport, Record<string, Connection>>();
+
+function parse(message: any) {
+    if (typeof message != 'string') {
+        return message;
+    }
+    try {
+        return JSON.parse(message);
+    } catch (e) {
+        return message;
+    }
+}
+
+function connect(transport: RealtimeTransport, channel: string, connection: Connection) {
+    connection.close = transport(channel, {
+        onOpen: () => {
+            const reopened = connection.opened;
+            connection.opened = true;
+            connection.attempt = 0;
+            if (reopened) {
+                connection.subscribers.forEach(subscriber => subscriber.onReconnect && subscriber.onReconnect());
+            }
+        },
+        onMessage: message => {
+            const parsed = parse(message);
+            connection.subscribers.forEach(subscriber => subscriber.onMessage(parsed));
+        },
+        onClose: () => {
+            connection.close = null;
+            if (connection.subscribers.length) {
+                connection.attempt++;
+                connection.timer = setTimeout(
+                    () => connect(transport, channel, connection),
+                    retryDelay(globalReconnect, connection.attempt)
+                );
+            }
+        }
+    });
+}
+
+/**
+ * Receive the messages of a channel, sharing its connection with any other subscribers.
+ * @returns a function which unsubscribes, closing the connection after the last subscriber
+ */
+export function subscribe(channel: string, subscriber: Subscriber, transport?: RealtimeTransport): () => void {
+    transport = transport || globalTransport || eventSourceTransport;
+    if (!connections.has(transport)) {
+        connections.set(transport, {});
+    }
+    const channels = connections.get(transport);
+    let connection = channels[channel];
+    if (!connection) {
+        connection = channels[channel] = {subscribers: [], opened: false, attempt: 0};
+        connect(transport, channel, connection);
+    }
+    connection.subscribers = connection.subscribers.concat(subscriber);
+
+    return () => {
+        connection.subscribers = connection.subscribers.filter(s => s !== subscriber);
+        if (!connection.subscribers.length && channels[channel] === connection) {
+            delete channels[channel];
+            clearTimeout(connection.timer);
+            connection.close && connection.close();
+        }
+    };
+}
+
+const updateTypes = ['replace', 'merge', 'patch', 'reload'];
+
+function defaultToUpdate(message: any): RealtimeUpdate {
+    return message && typeof message == 'object' && updateTypes.indexOf(message.type) >= 0 ?
+        message :
+        {type: 'replace', data: message};
+}
+
+/**
+ * Apply a replace, merge or patch update to the data; reloads are left to the caller.
+ */
+export function applyUpdate<T>(data: T, update: RealtimeUpdate, serverAdapter: (response: any) => T = x => x): T {
+    switch (update.type) {
+        case 'replace':
+            return serverAdapter(update.data);
+        case 'merge':
+            return Array.isArray(data) ? mergeRecords(data, update.data) : {...(data as any), ...update.data};
+        case 'patch':
+            return applyPatch(data, update.operations);
+        default:
+            return data;
+    }
+}
+
+/**
+ * Merge records into a list by id, adding those it hasn't.
+ */
+function mergeRecords(list: any[], records: any): any {
+    const added = [].concat(records).filter(record => !list.some(item => item && item.id === record.id));
+    return list.map(item => {
+        const record = [].concat(records).filter(r => item && r.id === item.id)[0];
+        return record ? {...item, ...record} : item;
+    }).concat(added);
+}
+
+/**
+ * Subscribe to the channel for a url while it is given, passing on each message as an update. Reconnecting is
+ * reported as a reload.
+ */
+export function useRealtime(
+    url: string,
+    options: RealtimeOptions | boolean,
+    onUpdate: (update: RealtimeUpdate) => void
+) {
+    const {channel = (url: string) => url, transport, toUpdate = defaultToUpdate} =
+        (typeof options == 'object' ? options : {}) as RealtimeOptions;
+    const name = url && options ? channel(url) : null;
+
+    // the callback is usually new on every render, and shouldn't cause a new subscription
+    const latest = React.useRef({onUpdate, toUpdate});
+    latest.current = {onUpdate, toUpdate};
+
+    React.useEffect(() => {
+        if (!name) {
+            return;
+        }
+        return subscribe(name, {
+            onMessage: message => latest.current.onUpdate(latest.current.toUpdate(message)),
+            onReconnect: () => latest.current.onUpdate({type: 'reload'})
+        }, transport);
+    }, [name, transport]);
+}
@@ -0,0 +1,115 @@
+import {pathToRegexp} from "path-to-regexp";
+
+/**
+ * In-memory cache of GET responses, keyed on the full request url (including the serialized query).
+ *
+ * Cached values are shared between every caller that reads them, so treat them as immutable.
+ */
+
+export interface CacheOptions {
+    /**
+     * Milliseconds a response stays fresh.
+     */
+    ttl?: number;
+
+    /**
+     * When full, the least recently used entry is evicted.
+     */
+    maxEntries?: number;
+}
+
+interface Entry {
+    data: any;
+    expires: number;
+}
+
+// Map iterates in insertion order, so re-inserting an entry on every read keeps it ordered by recent use
+const entries = new Map<string, Entry>();
+let cacheOptions: CacheOptions = {ttl: 5 * 60 * 1000, maxEntries: 100};
+
+export function configureCache(options: CacheOptions) {
+    cacheOptions = {...cacheOptions, ...options};
+    evict();
+}
+
+function evict() {
+    while (entries.size > cacheOptions.maxEntries) {
+        entries.delete(entries.keys().next().value);
+    }
+}
+
+/**
+ * @returns the cached response, or undefined if there is no fresh one
+ */
+export function readCache(key: string): any {
+    const entry = entries.get(key);
+    if (!entry) {
+        return undefined;
+    }
+    entries.delete(key);
+    if (entry.expires <= Date.now()) {
+        return undefined;
+    }
+    entries.set(key, entry);
+    return entry.data;
+}
+
+export function writeCache(key: string, data: any, ttl = cacheOptions.ttl) {
+    entries.delete(key);
+    entries.set(key, {data, expires: Date.now() + ttl});
+    evict();
+}
+
+export function deleteCache(key: string) {
+    entries.delete(key);
+}
+
+function pathOf(url: string) {
+    return url.replace(/^https?:\/\/[^\/]+/, '').split(/[?#]/)[0].replace(/(.)\/$/, '$1');
+}
+
+let invalidationListeners: ((matches: (url: string) => boolean) => void)[] = [];
+
+/**
+ * Be told which urls are invalidated, for stores of responses kept apart from the cache.
+ * @returns a function which stops the notifications
+ */
+export function subscribeToInvalidation(listener: (matches: (url: string) => boolean) => void): () => void {
+    invalidationListeners = invalidationListeners.concat(listener);
+    return () => {
+        invalidationListeners = invalidationListeners.filter(l => l !== listener);
+    };
+}
+
+function invalidate(matches: (url: string) => boolean) {
+    Array.from(entries.keys()).filter(matches).forEach(key => entries.delete(key));
+    invalidationListeners.forEach(listener => listener(matches));
+}
+
+/**
+ * Remove cached responses.
+ * @param pattern a RegExp tested against the whole url, or a path-to-regexp pattern (such as '/samples/:id')
+ *                matched against its path. Without a pattern, the whole cache is cleared.
+ */
+export function invalidateCache(pattern?: string | RegExp) {
+    if (pattern === undefined) {
+        invalidate(() => true);
+    } else if (pattern instanceof RegExp) {
+        invalidate(key => pattern.test(key));
+    } else {
+        const regexp = pathToRegexp(pattern);
+        invalidate(key => regexp.test(pathOf(key)));
+    }
+}
+
+/**
+ * Remove cached responses that a change to the resource at this url may have made stale:
+ * the resource itself, anything below it, and the collections above it.
+ */
+export function invalidateRelated(url: string) {
+    const path = pathOf(url);
+    invalidate(key => {
+        const cachedPath = pathOf(key);
+        return cachedPath === path || cachedPath.indexOf(path + '/') === 0 || path.indexOf(cachedPath + '/') === 0;
+    });
+}
@@ -0,0 +1,84 @@
+/**
+ * Retry policies for JsonApi.
+ *
+ * A failed exchange is retried when the method is idempotent, attempts remain, and either the server could not be
+ * reached (network failure or timeout) or it responded with one of the retryable statuses.
+ */
+
+export interface RetryPolicy {
+    /**
+     * Total number of attempts, including the first. Defaults to 1, i.e. no retries.
+     */
+    maxAttempts?: number;
+
+    /**
+     * Milliseconds to wait before the first retry. Each subsequent wait is multiplied by `factor`.
+     */
+    delay?: number;
+    factor?: number;
+
+    /**
+     * Upper bound for any wait, including one requested by a Retry-After header.
+     */
+    maxDelay?: number;
+
+    /**
+     * Fraction of each wait (0 to 1) that is randomized, so that many clients don't retry in lockstep.
+     */
+    jitter?: number;
+
+    statuses?: number[];
+    methods?: string[];
+
+    /**
+     * Wait as long as a Retry-After response header asks, instead of the computed backoff.
+     */
+    respectRetryAfter?: boolean;
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+    maxAttempts: 1,
+    delay: 500,
+    factor: 2,
+    maxDelay: 30 * 1000,
+    jitter: 0.5,
+    statuses: [408, 429, 502, 503, 504],
+    methods: ['GET', 'PUT', 'DELETE'],
+    respectRetryAfter: true
+};
+
+/**
+ * Whether the given attempt (counting from 1) may be followed by another.
+ * @param status the response status, or 0 if the server could not be reached
+ */
+export function shouldRetry(policy: RetryPolicy, method: string, attempt: number, status: number): boolean {
+    return attempt < policy.maxAttempts
+        && policy.methods.indexOf(method.toUpperCase()) >= 0
+        && (status === 0 || policy.statuses.indexOf(status) >= 0);
+}
+
+/**
+ * Milliseconds to wait after the given attempt (counting from 1) before trying again.
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number, headers: Record<string, string> = {}): number {
+    const retryAfter = policy.respectRetryAfter ? parseRetryAfter(headers['retry-after']) : null;
+    if (retryAfter !== null) {
+        return Math.min(retryAfter, policy.maxDelay);
+    }
+    const backoff = Math.min(policy.delay * Math.pow(policy.factor, attempt - 1), policy.maxDelay);
+    return Math.round(backoff * (1 - policy.jitter * Math.random()));
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ */
+function parseRetryAfter(value?: string): number {
+    if (!value) {
+        return null;
+    }
+    if (/^\s*\d+\s*$/.test(value)) {
+        return parseInt(value, 10) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,129 @@
+import {compile, match, parse} from "path-to-regexp";
+import {parseQuery, serializeQuery} from "./query-string";
+
+/**
+ * @docs
+ *
+ * Naming routes
+ *
+ *   defineRoutes({
+ *       samples: '/samples',
+ *       sample: '/samples/:id',
+ *       sample_run: '/samples/:sampleId/runs/:runId'
+ *   });
+ *
+ *   urlFor('sample_run', {sampleId: 1, runId: 2, query: {tab: 'reads'}})   // '/samples/1/runs/2?tab=reads'
+ *   matchRoute('/samples/1/runs/2?tab=reads')
+ *   => {name: 'sample_run', params: {sampleId: '1', runId: '2'}, query: {tab: 'reads'}}
+ *   LoaderHOC('sample', {getUrlParams: props => ({id: props.id})})(SampleView)
+ *
+ * Routes are path-to-regexp patterns, declared once by name. Wherever a url is taken (LoaderHOC, ComposerHOC, the
+ * hooks and generatePath), a route's name will do as well. To have TypeScript check route names and their
+ * parameters, declare them:
+ *
+ *   declare module 'react-ferry/dist/routes' {
+ *       interface RouteParams {
+ *           samples: {};
+ *           sample: { id: number };
+ *           sample_run: { sampleId: number, runId: number };
+ *       }
+ *   }
+ */
+
+/**
+ * The parameters of each route, by name, for applications to declare (see above). Until they do, any name is allowed.
+ */
+export interface RouteParams {
+}
+
+export type RouteName = [keyof RouteParams] extends [never] ? string : keyof RouteParams;
+
+/**
+ * A route's parameters, and optionally a query.
+ */
+export type RouteUrlParams<K> = (K extends keyof RouteParams ? RouteParams[K] : Record<string, any>) & { query?: any };
+
+export interface RouteMatch {
+    name: RouteName;
+    params: Record<string, string>;
+    query: any;
+}
+
+interface Route {
+    pattern: string;
+    keys: { name: string, optional: boolean }[];
+    generator: (params: object) => string;
+    matcher: (path: string) => false | { params: object };
+}
+
+const routes: Record<string, Route> = {};
+
+/**
+ * Add these routes to those already defined. A route defined again is replaced.
+ */
+export function defineRoutes(patterns: Partial<Record<RouteName, string>>) {
+    for (let name in patterns) if (patterns.hasOwnProperty(name)) {
+        const pattern: string = (patterns as any)[name];
+        routes[name] = {
+            pattern,
+            keys: parse(pattern).filter(token => typeof token != 'string').map((token: any) => ({
+                name: `${token.name}`,
+                optional: token.modifier == '?' || token.modifier == '*'
+            })),
+            generator: compile(pattern, {encode: encodeURIComponent}),
+            matcher: match(pattern, {decode: decodeURIComponent})
+        };
+    }
+}
+
+export function isRouteName(name: string): boolean {
+    return routes.hasOwnProperty(name);
+}
+
+/**
+ * The pattern of the route with this name, or the argument itself if it isn't one, so that urls pass through.
+ */
+export function routePath(nameOrPath: string): string {
+    return isRouteName(nameOrPath) ? routes[nameOrPath].pattern : nameOrPath;
+}
+
+/**
+ * Build the url of a named route.
+ * @throws Error if the route is unknown, or a parameter of its pattern is missing, or one is given which it hasn't
+ */
+export function routeUrl<K extends RouteName>(name: K, params?: RouteUrlParams<K>): string {
+    if (!isRouteName(name as string)) {
+        throw new Error(`Unknown route: ${name}`);
+    }
+    const route = routes[name as string];
+    const {query, ...pathParams} = (params || {}) as any;
+    const missing = route.keys.filter(key => !key.optional && pathParams[key.name] == null).map(key => key.name);
+    const extra = Object.keys(pathParams).filter(param => !route.keys.some(key => key.name == param));
+    if (missing.length) {
+        throw new Error(`Route ${name} (${route.pattern}) is missing parameters: ${missing.join(', ')}`);
+    }
+    if (extra.length) {
+        throw new Error(`Route ${name} (${route.pattern}) has no parameters: ${extra.join(', ')}`);
+    }
+    for (let param in pathParams) if (pathParams[param] == null) {
+        delete pathParams[param];
+    }
+    const queryString = query ? serializeQuery(query) : '';
+    return route.generator(pathParams) + (queryString && '?' + queryString);
+}
+
+/**
+ * The reverse of routeUrl: the first route, in the order they were defined, which matches the url.
+ * @returns null if none does
+ */
+export function matchRoute(url: string): RouteMatch {
+    const [path, query = ''] = url.replace(/^https?:\/\/[^\/]+/, '').split('?');
+    for (let name in routes) if (routes.hasOwnProperty(name)) {
+        const matched = routes[name].matcher(path);
+        if (matched) {
+            const params = matched.params as Record<string, string>;
+            return {name: name as RouteName, params, query: parseQuery(query)};
+        }
+    }
+    return null;
+}
@@ -0,0 +1,131 @@
+import JsonApi, {isCaching, JsonApiOptions} from "./json-api";
+import {Transport} from "./transport";
+import {readCache} from "./response-cache";
+
+/**
+ * @docs
+ *
+ * Rendering loaders on the server
+ *
+ *   import {renderToString} from 'react-dom/server';
+ *
+ *   const {html, data} = await prefetch(<App location={request.url} />, {render: renderToString});
+ *   response.send(`<div id="root">${html}</div>
+ *       <script>window.__LOADER_DATA__ = ${JSON.stringify(data).replace(/</g, '\\u003c')}</script>`);
+ *
+ * and on the client, before rendering:
+ *
+ *   hydrate(window.__LOADER_DATA__);
+ *   ReactDOM.hydrate(<App />, root);
+ *
+ * The tree is rendered repeatedly: each pass collects the requests of the loaders which have no data yet, then
+ * fetches them, until a pass finds nothing new (so loaders waiting on another resource's data are reached too).
+ * Loaders read the responses fetched so far while rendering, and on the client, the hydrated data as they first
+ * render; it is dropped once that render is done, so that loaders mounted later fetch their data. Failed requests are
+ * left out, to be retried on the client.
+ *
+ * Paginated loaders are not prefetched; they load on the client.
+ */
+
+/**
+ * Raw responses by the url they were fetched from, ready for JSON.stringify.
+ */
+export type DehydratedState = Record<string, any>;
+
+export interface PrefetchOptions<Rendered> {
+    /**
+     * A synchronous render, such as react-dom/server's renderToString.
+     */
+    render(element: any): Rendered;
+
+    /**
+     * Transport for the prefetched requests, which defaults to JsonApi's.
+     */
+    transport?: Transport;
+
+    /**
+     * Rendering stops after this many passes, even if loaders are still waiting for data.
+     */
+    maxPasses?: number;
+}
+
+// set only while prefetch() is rendering, which is synchronous, so concurrent prefetches can't see each other's data
+let seeds: DehydratedState = null;
+let collected: string[] = null;
+
+// the data from a prefetch, until the render which hydrates it is done
+let hydrated: DehydratedState = {};
+let hydrating = false;
+
+/**
+ * The response for a GET to this url available to a loader as it first renders, if any: during a prefetch, one
+ * fetched by an earlier pass; otherwise, a hydrated one, or a cached one if a GET with these options may use the
+ * cache. During a prefetch, the url is otherwise noted to be fetched.
+ */
+export function seededResponse(url: string, options?: JsonApiOptions): any {
+    if (seeds) {
+        if (seeds.hasOwnProperty(url)) {
+            return seeds[url];
+        }
+        if (collected.indexOf(url) < 0) {
+            collected.push(url);
+        }
+        return undefined;
+    }
+    if (hydrated.hasOwnProperty(url)) {
+        if (!hydrating) {
+            // the loaders of the hydrating render all read their data before this runs
+            hydrating = true;
+            setTimeout(() => {
+                hydrated = {};
+                hydrating = false;
+            });
+        }
+        return hydrated[url];
+    }
+    return isCaching(options) ? readCache(url) : undefined;
+}
+
+function renderPass<Rendered>(element: any, render: (element: any) => Rendered, data: DehydratedState) {
+    seeds = data;
+    collected = [];
+    try {
+        return {rendered: render(element), requests: collected};
+    } finally {
+        seeds = collected = null;
+    }
+}
+
+export async function prefetch<Rendered = string>(
+    element: any,
+    options: PrefetchOptions<Rendered>
+): Promise<{ html: Rendered, data: DehydratedState }> {
+    const {render, transport, maxPasses = 5} = options;
+    const data: DehydratedState = {};
+    const failed: string[] = [];
+    let pass = renderPass(element, render, data);
+
+    for (let passes = 1; passes < maxPasses; passes++) {
+        const requests = pass.requests.filter(url => failed.indexOf(url) < 0);
+        if (!requests.length) {
+            break;
+        }
+        await Promise.all(requests.map(url => JsonApi.get(url, undefined, {transport, cache: false}).then(
+            response => {
+                data[url] = response;
+            },
+            () => {
+                failed.push(url);
+            }
+        )));
+        pass = renderPass(element, render, data);
+    }
+    return {html: pass.rendered, data};
+}
+
+/**
+ * Hand the data from a prefetch to the loaders of the next render, so they render with it straight away.
+ */
+export function hydrate(data: DehydratedState) {
+    hydrated = {...hydrated, ...data};
+}
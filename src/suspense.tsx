@@ -0,0 +1,230 @@
+import * as React from 'react';
+import JsonApi, {getUrl} from "./json-api";
+import {JsonApiError} from "./json-api-error";
+import generatePath from "./generate-path";
+import {seededResponse} from "./ssr";
+import {subscribeToInvalidation} from "./response-cache";
+
+/**
+ * @docs
+ *
+ * Loading with Suspense
+ *
+ *   let SampleView = LoaderHOC<Sample>('/samples/:id', { suspense: true, getUrlParams: props => props })(Component)
+ *
+ *   <LoaderErrorBoundary fallback={(error, retry) => <Oops message={`${error}`} onRetry={retry} />}>
+ *       <React.Suspense fallback={<PageSpinner />}>
+ *           <SampleView id={1} />
+ *           <RunList sampleId={1} />
+ *       </React.Suspense>
+ *   </LoaderErrorBoundary>
+ *
+ * A suspense loader throws a promise until its data arrives, and a LoaderError if the request fails. Responses are
+ * kept by url and query, apart from the response cache so that they don't expire while they are shown, and a component
+ * which suspends finds its data there when React renders it again; requests in flight are shared in the same way.
+ * A response is forgotten once no mounted loader shows it, or when the response cache is invalidated for its url
+ * (including by a change through JsonApi), and a failure once a LoaderErrorBoundary has caught it, so that the loader
+ * requests it again when it is next rendered. Suspense loaders don't render on the server.
+ */
+
+/**
+ * Thrown by a suspense loader whose request failed.
+ */
+export class LoaderError extends Error {
+    /**
+     * The failure, as a non-suspense loader would report it.
+     */
+    error: JsonApiError|string;
+
+    /**
+     * The requested url, including the query.
+     */
+    url: string;
+
+    constructor(error: JsonApiError|string, url: string) {
+        super(`${error}`);
+        this.name = 'LoaderError';
+        this.error = error;
+        this.url = url;
+    }
+
+    /**
+     * Request the resource again; it is rendered once the failed component is rendered again.
+     */
+    load() {
+        delete resources[this.url];
+        request(this.url);
+    }
+
+    toString() {
+        return this.message;
+    }
+}
+
+interface Resource {
+    promise?: Promise<void>;
+    error?: LoaderError;
+    loaded?: boolean;
+    response?: any;
+}
+
+/**
+ * Requests in flight, failed or done, by url.
+ */
+const resources: Record<string, Resource> = {};
+
+/**
+ * The number of mounted loaders showing each url.
+ */
+const users: Record<string, number> = {};
+
+subscribeToInvalidation(matches => {
+    Object.keys(resources).filter(matches).forEach(url => {
+        delete resources[url];
+    });
+});
+
+function retain(url: string) {
+    users[url] = (users[url] || 0) + 1;
+}
+
+/**
+ * Forget a settled response once no loader shows it. Waits a moment, as a loader which replaces another for the same
+ * url is mounted after the other is unmounted.
+ */
+function release(url: string) {
+    users[url]--;
+    setTimeout(() => {
+        const entry = resources[url];
+        if (!users[url] && entry && (entry.loaded || entry.error)) {
+            delete resources[url];
+            delete users[url];
+        }
+    });
+}
+
+function request(url: string) {
+    const entry: Resource = resources[url] = {};
+    entry.promise = JsonApi.get(url).then(
+        (response: any) => {
+            entry.loaded = true;
+            entry.response = response;
+        },
+        (error: JsonApiError|string) => {
+            entry.error = new LoaderError(error, url);
+        }
+    );
+    return entry;
+}
+
+/**
+ * @returns the response for a GET to this url, or throws while it is loading or after it has failed
+ */
+function read(url: string): any {
+    let entry = resources[url];
+    if (!entry) {
+        const response = seededResponse(url);
+        if (response !== undefined) {
+            resources[url] = {loaded: true, response};
+            return response;
+        }
+        entry = request(url);
+    }
+    if (entry.loaded) {
+        return entry.response;
+    }
+    throw entry.error || entry.promise;
+}
+
+/**
+ * Forget a failed request, so that the next render requests it again.
+ */
+function forgetFailure(url: string) {
+    if (resources[url] && resources[url].error) {
+        delete resources[url];
+    }
+}
+
+export interface SuspenseResourceOptions<ResultType> {
+    serverAdapter?: (response: any) => ResultType;
+    urlParams?: any;
+    renderOnEmptyResult?: boolean;
+}
+
+export interface SuspenseResourceState<ResultType> {
+    data: ResultType;
+
+    /**
+     * Fetch the resource again, suspending until it arrives.
+     */
+    reload(): void;
+}
+
+export function useSuspenseResource<ResultType = any, ApiParams = any>(
+    apiUrl: string,
+    apiQuery?: ApiParams,
+    options: SuspenseResourceOptions<ResultType> = {}
+): SuspenseResourceState<ResultType> {
+    const {serverAdapter = (x: any) => x, urlParams, renderOnEmptyResult} = options;
+    const [, rerender] = React.useReducer((count: number) => count + 1, 0);
+    const url = getUrl(generatePath(apiUrl, urlParams || {}), apiQuery);
+    const data: ResultType = serverAdapter(read(url));
+    React.useEffect(() => {
+        retain(url);
+        return () => release(url);
+    }, [url]);
+
+    if (Array.isArray(data) && data.length == 0 && !renderOnEmptyResult) {
+        throw new LoaderError('No results', url);
+    }
+    return {
+        data,
+        reload: () => {
+            delete resources[url];
+            rerender();
+        }
+    };
+}
+
+export interface LoaderErrorBoundaryProps {
+    /**
+     * Rendered in place of the children after a loader among them fails. Calling retry requests the failed resource
+     * again and renders the children once more.
+     */
+    fallback?(error: LoaderError, retry: () => void): React.ReactNode;
+}
+
+/**
+ * Catches the LoaderErrors of suspense loaders below it. Other errors are passed on to the boundaries above.
+ */
+export class LoaderErrorBoundary extends React.Component<LoaderErrorBoundaryProps, { error: LoaderError }> {
+    state: { error: LoaderError } = {error: null};
+
+    static getDerivedStateFromError(error: any) {
+        return {error};
+    }
+
+    componentDidCatch(error: any) {
+        if (error instanceof LoaderError) {
+            forgetFailure(error.url);
+        }
+    }
+
+    retry = () => {
+        this.state.error.load();
+        this.setState({error: null});
+    };
+
+    render() {
+        const {error} = this.state;
+        if (!error) {
+            return this.props.children;
+        }
+        if (!(error instanceof LoaderError)) {
+            throw error;
+        }
+        return this.props.fallback ?
+            this.props.fallback(error, this.retry) :
+            <div>[ warning ]<div>{`${error}`}</div><button onClick={this.retry}>Retry</button></div>;
+    }
+}
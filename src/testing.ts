@@ -0,0 +1,405 @@
+import {match} from "path-to-regexp";
+import {configureDefaults} from "./json-api";
+import {detectTransport, Transport, TransportFailure, TransportRequest, TransportResponse} from "./transport";
+import {parseQuery} from "./query-string";
+import {deepCompare} from "./helpers";
+import {configureDefaults as configureRealtime, RealtimeHandlers, RealtimeTransport} from "./realtime";
+
+/**
+ * Test helpers for code that uses JsonApi, LoaderHOC or ComposerHOC. (For realtime channels, see MockChannels.)
+ *
+ *   const server = new MockServer().install();
+ *   server.get('/samples/:id', ({params}) => ({body: {id: +params.id}}));
+ *   server.post('/samples', {status: 201, body: {message: 'Saved'}, headers: {Location: '/samples/1'}});
+ *   ...
+ *   server.expectRequest('POST', '/samples', {name: 'S1'});
+ *   server.uninstall();
+ */
+
+// Node's require, for reading and writing fixture files
+declare function require(module: string): any;
+
+export interface MockRequest {
+    method: string;
+    url: string;
+    path: string;
+    query: Record<string, any>;
+    headers: Record<string, string>;
+
+    /**
+     * The request body, parsed from JSON or urlencoded form where possible.
+     */
+    body: any;
+
+    /**
+     * Path parameters of the matched route.
+     */
+    params: Record<string, string>;
+}
+
+export interface MockReply {
+    status?: number;
+    statusText?: string;
+
+    /**
+     * Sent as-is if a string, otherwise as JSON.
+     */
+    body?: any;
+    headers?: Record<string, string>;
+
+    /**
+     * Milliseconds before replying. A delay longer than the request's timeout causes a timeout.
+     */
+    delay?: number;
+
+    /**
+     * Fail the exchange instead of replying.
+     */
+    fail?: TransportFailure;
+}
+
+export type MockHandler = MockReply | ((request: MockRequest) => MockReply | Promise<MockReply>);
+
+/**
+ * A recorded exchange, as stored in fixture files.
+ */
+export interface Fixture {
+    method: string;
+    url: string;
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+interface Route {
+    matches(method: string, url: string, path: string): false | {params: object};
+    handler: MockHandler;
+}
+
+function pathOf(url: string) {
+    return url.replace(/^https?:\/\/[^\/]+/, '').split(/[?#]/)[0];
+}
+
+function parseBody(body: any, headers: Record<string, string>): any {
+    if (typeof body != 'string') {
+        return body;
+    }
+    const contentType = Object.keys(headers).filter(name => name.toLowerCase() === 'content-type')
+        .map(name => headers[name])[0] || '';
+    if (/x-www-form-urlencoded/.test(contentType)) {
+        return parseQuery(body);
+    }
+    try {
+        return JSON.parse(body);
+    } catch (e) {
+        return body;
+    }
+}
+
+function toResponse(reply: MockReply): TransportResponse {
+    const headers: Record<string, string> = {};
+    for (let name in reply.headers || {}) if (reply.headers.hasOwnProperty(name)) {
+        headers[name.toLowerCase()] = reply.headers[name];
+    }
+    let body = reply.body === undefined ? '' : reply.body;
+    if (typeof body != 'string') {
+        body = JSON.stringify(body);
+        headers['content-type'] = headers['content-type'] || 'application/json';
+    }
+    return {status: reply.status || 200, statusText: reply.statusText || '', headers, body};
+}
+
+/**
+ * An in-memory server, which answers JsonApi requests through its transport.
+ * Requests which match no route are answered with a 404 and reported by expectAllMatched().
+ */
+export class MockServer {
+    /**
+     * Every request received, in order.
+     */
+    requests: MockRequest[] = [];
+    unmatched: MockRequest[] = [];
+
+    private routes: Route[] = [];
+
+    /**
+     * @param delay milliseconds before every reply, unless the reply sets its own
+     */
+    constructor(private delay = 0) {}
+
+    /**
+     * Answer requests with this method and path-to-regexp pattern. Later routes take precedence over earlier ones,
+     * so a test can override a general route with a specific one.
+     */
+    on(method: string, pattern: string, handler: MockHandler): this {
+        const matchPath = match(pattern, {decode: decodeURIComponent});
+        this.routes.unshift({
+            matches: (requestMethod, url, path) => requestMethod === method.toUpperCase() && matchPath(path),
+            handler
+        });
+        return this;
+    }
+
+    get(pattern: string, handler: MockHandler) { return this.on('GET', pattern, handler); }
+    post(pattern: string, handler: MockHandler) { return this.on('POST', pattern, handler); }
+    patch(pattern: string, handler: MockHandler) { return this.on('PATCH', pattern, handler); }
+    put(pattern: string, handler: MockHandler) { return this.on('PUT', pattern, handler); }
+    delete(pattern: string, handler: MockHandler) { return this.on('DELETE', pattern, handler); }
+    link(pattern: string, handler: MockHandler) { return this.on('LINK', pattern, handler); }
+    unlink(pattern: string, handler: MockHandler) { return this.on('UNLINK', pattern, handler); }
+
+    /**
+     * Answer requests with recorded exchanges. Several fixtures for the same method and url are replayed in order,
+     * and the last one is repeated.
+     */
+    replay(fixtures: Fixture[]): this {
+        const queues: Record<string, Fixture[]> = {};
+        for (let fixture of fixtures) {
+            const key = `${fixture.method} ${fixture.url}`;
+            if (!queues[key]) {
+                const queue: Fixture[] = queues[key] = [];
+                this.routes.unshift({
+                    // fixtures match on the whole url, including the query
+                    matches: (method, url) => method === fixture.method && url === fixture.url && {params: {}},
+                    handler: () => {
+                        const {status, statusText, headers, body} = queue.length > 1 ? queue.shift() : queue[0];
+                        return {status, statusText, headers, body};
+                    }
+                });
+            }
+            queues[key].push(fixture);
+        }
+        return this;
+    }
+
+    transport: Transport = (request, onResponse, onFailure) => {
+        const path = pathOf(request.url);
+        const query = parseQuery(request.url.indexOf('?') >= 0 ? request.url.substr(request.url.indexOf('?')) : '');
+        const method = request.method.toUpperCase();
+        let params = {};
+        let route: Route;
+        for (let candidate of this.routes) {
+            const result = candidate.matches(method, request.url, path);
+            if (result) {
+                [route, params] = [candidate, result.params];
+                break;
+            }
+        }
+        const recorded: MockRequest = {
+            method,
+            url: request.url,
+            path,
+            query,
+            headers: request.headers,
+            body: parseBody(request.body, request.headers),
+            params
+        };
+        this.requests.push(recorded);
+        if (!route) {
+            this.unmatched.push(recorded);
+        }
+
+        let aborted = false;
+        const timers: any[] = [];
+        const later = (delay: number, fn: () => void) => {
+            timers.push(setTimeout(() => aborted || fn(), delay));
+        };
+        Promise.resolve(
+            !route ? {status: 404, body: {error: `No mock route for ${recorded.method} ${path}`}} :
+                typeof route.handler == 'function' ? route.handler(recorded) : route.handler
+        ).then(reply => {
+            const delay = reply.delay !== undefined ? reply.delay : this.delay;
+            if (request.timeout && delay >= request.timeout) {
+                later(request.timeout, () => onFailure('timeout'));
+            } else if (reply.fail) {
+                later(delay, () => onFailure(reply.fail));
+            } else {
+                later(delay, () => onResponse(toResponse(reply)));
+            }
+        }, error => {
+            later(this.delay, () => onResponse(toResponse({status: 500, body: {error: `${error}`}})));
+        });
+        return () => {
+            aborted = true;
+            timers.forEach(clearTimeout);
+        };
+    };
+
+    /**
+     * Make this server answer every JsonApi call.
+     */
+    install(): this {
+        configureDefaults({transport: this.transport});
+        return this;
+    }
+
+    /**
+     * Return JsonApi to its automatically chosen transport.
+     */
+    uninstall() {
+        configureDefaults({transport: null});
+    }
+
+    /**
+     * Forget recorded requests and, unless keepRoutes is set, all routes.
+     */
+    reset(keepRoutes = false) {
+        this.requests = [];
+        this.unmatched = [];
+        if (!keepRoutes) {
+            this.routes = [];
+        }
+    }
+
+    /**
+     * Recorded requests with this method whose path matches a path-to-regexp pattern.
+     */
+    findRequests(method: string, pattern: string): MockRequest[] {
+        const matches = match(pattern, {decode: decodeURIComponent});
+        return this.requests.filter(request => request.method === method.toUpperCase() && !!matches(request.path));
+    }
+
+    /**
+     * Throw unless a matching request was received, optionally with a deeply equal body.
+     * @returns the first matching request
+     */
+    expectRequest(method: string, pattern: string, body?: any): MockRequest {
+        const found = this.findRequests(method, pattern)
+            .filter(request => body === undefined || deepCompare(request.body, body));
+        if (!found.length) {
+            const received = this.requests.map(request => `${request.method} ${request.url}`).join('\n  ') || 'none';
+            throw new Error(
+                `Expected a ${method.toUpperCase()} request to ${pattern}` +
+                (body === undefined ? '' : ` with body ${JSON.stringify(body)}`) +
+                `\nReceived:\n  ${received}`
+            );
+        }
+        return found[0];
+    }
+
+    /**
+     * Throw if a matching request was received.
+     */
+    expectNoRequest(method: string, pattern: string) {
+        if (this.findRequests(method, pattern).length) {
+            throw new Error(`Expected no ${method.toUpperCase()} request to ${pattern}`);
+        }
+    }
+
+    /**
+     * Throw if any request matched no route.
+     */
+    expectAllMatched() {
+        if (this.unmatched.length) {
+            throw new Error(
+                `Unexpected requests:\n  ${this.unmatched.map(request => `${request.method} ${request.url}`).join('\n  ')}`
+            );
+        }
+    }
+}
+
+/**
+ * An in-process stand-in for a server's realtime channels, which tests drive directly.
+ *
+ *   const channels = new MockChannels().install();
+ *   channels.send('/runs/1', {type: 'merge', data: {status: 'done'}});
+ *   channels.drop('/runs/1');   // the loaders reconnect, and reload
+ *   channels.uninstall();
+ */
+export class MockChannels {
+    private open: { channel: string, handlers: RealtimeHandlers }[] = [];
+
+    transport: RealtimeTransport = (channel, handlers) => {
+        const connection = {channel, handlers};
+        this.open.push(connection);
+        setTimeout(() => this.open.indexOf(connection) >= 0 && handlers.onOpen());
+        return () => {
+            this.open = this.open.filter(c => c !== connection);
+        };
+    };
+
+    /**
+     * Make realtime subscriptions use these channels.
+     */
+    install(): this {
+        configureRealtime({transport: this.transport});
+        return this;
+    }
+
+    /**
+     * Return realtime subscriptions to server-sent events.
+     */
+    uninstall() {
+        configureRealtime({transport: null});
+    }
+
+    /**
+     * The number of connections open to the channel.
+     */
+    connections(channel: string): number {
+        return this.open.filter(c => c.channel === channel).length;
+    }
+
+    /**
+     * Deliver a message (as JSON, unless it is a string) to every connection to the channel.
+     */
+    send(channel: string, message: any) {
+        const text = typeof message == 'string' ? message : JSON.stringify(message);
+        this.open.filter(c => c.channel === channel).forEach(c => c.handlers.onMessage(text));
+    }
+
+    /**
+     * Lose every connection to the channel, as if the server had gone away.
+     */
+    drop(channel: string) {
+        const dropped = this.open.filter(c => c.channel === channel);
+        this.open = this.open.filter(c => c.channel !== channel);
+        dropped.forEach(c => c.handlers.onClose());
+    }
+}
+
+/**
+ * Wraps a transport (by default the automatically chosen one) to record every exchange it completes, for replay
+ * with MockServer#replay.
+ *
+ *   const recorder = new Recorder();
+ *   configureDefaults({transport: recorder.transport});
+ *   ...
+ *   writeFixtures('fixtures/samples.json', recorder.fixtures);
+ */
+export class Recorder {
+    fixtures: Fixture[] = [];
+
+    constructor(private inner: Transport = detectTransport()) {}
+
+    transport: Transport = (request: TransportRequest, onResponse, onFailure) => this.inner(
+        request,
+        response => {
+            this.fixtures.push({
+                method: request.method.toUpperCase(),
+                url: request.url,
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers,
+                body: response.body
+            });
+            onResponse(response);
+        },
+        onFailure
+    );
+}
+
+/**
+ * Node only.
+ */
+export function writeFixtures(file: string, fixtures: Fixture[]) {
+    require('fs').writeFileSync(file, JSON.stringify(fixtures, null, 2));
+}
+
+/**
+ * Node only.
+ */
+export function readFixtures(file: string): Fixture[] {
+    return JSON.parse(require('fs').readFileSync(file, 'utf8'));
+}
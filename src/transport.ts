@@ -0,0 +1,195 @@
+/**
+ * Transports perform the actual HTTP exchange on behalf of JsonApi.
+ *
+ * A transport receives a fully-prepared request (method, url, headers, encoded body) and reports back either the raw
+ * response or the reason the exchange failed. Parsing, redirects and error messages remain the job of JsonApi, so
+ * every transport produces identical results for the same server response.
+ */
+
+export interface TransportRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: any;
+
+    /**
+     * Milliseconds to wait for a response. Zero or undefined waits indefinitely.
+     */
+    timeout?: number;
+
+    onUploadProgress?(progress: TransportProgress): void;
+    onDownloadProgress?(progress: TransportProgress): void;
+}
+
+export interface TransportProgress {
+    loaded: number;
+
+    /**
+     * Total number of bytes, or 0 if unknown.
+     */
+    total: number;
+}
+
+export interface TransportResponse {
+    status: number;
+    statusText: string;
+
+    /**
+     * Response headers, with lower-cased names.
+     */
+    headers: Record<string, string>;
+    body: string;
+}
+
+export type TransportFailure = 'network' | 'timeout' | 'abort';
+
+/**
+ * Sends a request, calling exactly one of the callbacks unless the exchange is aborted through the returned function.
+ * Aborting through the returned function is silent: neither callback is called afterwards.
+ */
+export type Transport = (
+    request: TransportRequest,
+    onResponse: (response: TransportResponse) => void,
+    onFailure: (reason: TransportFailure) => void
+) => () => void;
+
+/**
+ * Parse the output of XMLHttpRequest#getAllResponseHeaders into a header map.
+ */
+function parseHeaders(raw: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (let line of (raw || '').split(/\r?\n/)) {
+        const index = line.indexOf(':');
+        if (index > 0) {
+            const name = line.substr(0, index).trim().toLowerCase();
+            const value = line.substr(index + 1).trim();
+            headers[name] = name in headers ? `${headers[name]}, ${value}` : value;
+        }
+    }
+    return headers;
+}
+
+export const xhrTransport: Transport = (request, onResponse, onFailure) => {
+    let xhr = new XMLHttpRequest();
+    let cancelled = false;
+    xhr.open(request.method, request.url, true);
+    for (let name in request.headers) if (request.headers.hasOwnProperty(name)) {
+        xhr.setRequestHeader(name, request.headers[name]);
+    }
+    xhr.timeout = request.timeout || 0;
+    xhr.onload = function() {
+        onResponse({
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: parseHeaders(xhr.getAllResponseHeaders()),
+            body: xhr.responseText
+        });
+    };
+    xhr.onerror = function() {
+        onFailure('network');
+    };
+    xhr.ontimeout = function() {
+        onFailure('timeout');
+    };
+    xhr.onabort = function() {
+        if (!cancelled) {
+            onFailure('abort');
+        }
+    };
+    // only listen for upload progress on request, since doing so forces a CORS preflight
+    if (request.onUploadProgress && xhr.upload) {
+        xhr.upload.onprogress = e => request.onUploadProgress(toProgress(e));
+    }
+    if (request.onDownloadProgress) {
+        xhr.onprogress = e => request.onDownloadProgress(toProgress(e));
+    }
+    xhr.send(request.body);
+    return () => {
+        cancelled = true;
+        xhr.onload = xhr.onerror = xhr.ontimeout = null;
+        xhr.abort();
+    };
+};
+
+function toProgress(e: ProgressEvent): TransportProgress {
+    return {loaded: e.loaded, total: e.lengthComputable ? e.total : 0};
+}
+
+/**
+ * Read a fetch response body as text, reporting progress as chunks arrive.
+ */
+function readBody(response: Response, onProgress?: (progress: TransportProgress) => void): Promise<string> {
+    if (!onProgress || !response.body || typeof TextDecoder == 'undefined') {
+        return response.text();
+    }
+    const total = parseInt(response.headers.get('content-length'), 10) || 0;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let loaded = 0;
+    let text = '';
+    const pump = (): Promise<string> => reader.read().then(({done, value}: {done: boolean, value: Uint8Array}) => {
+        if (done) {
+            return text + decoder.decode();
+        }
+        loaded += value.length;
+        text += decoder.decode(value, {stream: true});
+        onProgress({loaded, total});
+        return pump();
+    });
+    return pump();
+}
+
+/**
+ * fetch cannot report upload progress, so onUploadProgress is never called.
+ */
+export const fetchTransport: Transport = (request, onResponse, onFailure) => {
+    const controller = typeof AbortController != 'undefined' ? new AbortController() : null;
+    let settled = false;
+    let timer: any;
+    const settle = () => {
+        const first = !settled;
+        settled = true;
+        clearTimeout(timer);
+        return first;
+    };
+    if (request.timeout) {
+        timer = setTimeout(() => {
+            if (settle()) {
+                controller && controller.abort();
+                onFailure('timeout');
+            }
+        }, request.timeout);
+    }
+    fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        credentials: 'same-origin',
+        signal: controller ? controller.signal : undefined
+    }).then(
+        response => readBody(response, request.onDownloadProgress).then(body => {
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value: string, name: string) => {
+                headers[name.toLowerCase()] = value;
+            });
+            if (settle()) {
+                onResponse({status: response.status, statusText: response.statusText, headers, body});
+            }
+        })
+    ).catch(error => {
+        if (settle()) {
+            onFailure(error && error.name === 'AbortError' ? 'abort' : 'network');
+        }
+    });
+    return () => {
+        settle();
+        controller && controller.abort();
+    };
+};
+
+/**
+ * XMLHttpRequest where the environment provides it (browsers), otherwise fetch (Node, service workers).
+ */
+export function detectTransport(): Transport {
+    return typeof XMLHttpRequest != 'undefined' ? xhrTransport : fetchTransport;
+}
@@ -21,7 +21,10 @@ interface GettersSetters<T> {
 type DefaultApiParams = { id: number|string };
 
 interface ServerHooks {
-    onError?(error: string|Error): any
+    /**
+     * Receives the JsonApiError of a failed request, or whatever reason an interceptor rejected it with.
+     */
+    onError?(error: import("./json-api-error").JsonApiError|string): any
     onMessage?(message: string): any
 }
 interface ApiQueryShorthand<T = DefaultApiParams> {
@@ -32,7 +35,7 @@ interface ApiQueryShorthand<T = DefaultApiParams> {
 interface UrlOpts {
     action: string
     controller: string
-    [key: string]: string
+    [key: string]: any
 }
 
 interface CancellablePromise<T> extends Promise<T> {
@@ -1,28 +1,57 @@
+import {parseQuery, serializeQuery} from "./query-string";
+import {isRouteName, RouteName, routeUrl, RouteUrlParams} from "./routes";
 
-let urlForInner = <T extends UrlOpts>(opts: Partial<T> = {}) => {
+/**
+ * Only the pathname is read, so a history location or a server request's url will do as well as window.location.
+ */
+export type UrlLocation = { pathname: string };
+
+let urlForInner = <T extends UrlOpts>(opts: Partial<T> = {}, location: UrlLocation = window.location) => {
     /**
      * port of erb_helper.rb #url_for
      * skips the host/protocol since React Router does not support that (and shouldn't need it, anyway)
      */
 
     const match: Partial<UrlOpts> = {};
-    [, match.controller, match.action] = window.location.pathname.match(/^\/([^\/]+)\/([^\/]+)/);
+    [, match.controller, match.action] = location.pathname.match(/^\/([^\/]+)\/([^\/]+)/) || [] as string[];
     const [action, controller] =
         ['action', 'controller'].map(actcon => {
             const result = opts[actcon] || match[actcon];
             delete opts[actcon];
             return result;
         });
-    const optsStr = Object.keys(opts).map(key =>
-        [key, opts[key]].map(encodeURIComponent).join('=')
-    ).join('&');
+    if (!controller || !action) {
+        throw new Error(`urlFor needs a controller and action, and ${location.pathname} has none to fill in`);
+    }
+    const optsStr = serializeQuery(opts);
     return `/${controller}/${action}${optsStr && '?' + optsStr}`;
 };
 
-export function setUrlInterpreter(newInterpreter: <T extends UrlOpts>(opts: Partial<T>) => string) {
+export function setUrlInterpreter(
+    newInterpreter: <T extends UrlOpts>(opts: Partial<T>, location?: UrlLocation) => string
+) {
     urlForInner = newInterpreter;
 }
 
-export const urlFor = (...params: any[]) => {
+/**
+ * The url of a named route (see defineRoutes), or, given controller, action and other parameters, a Rails-style url.
+ * Missing controller and action parameters are taken from the current location: window.location unless another is
+ * given, as it must be where there is no window (such as when rendering on the server).
+ */
+export function urlFor<K extends RouteName>(name: K, params?: RouteUrlParams<K>): string;
+export function urlFor<T extends UrlOpts>(opts?: Partial<T>, location?: UrlLocation): string;
+export function urlFor(...params: any[]) {
+    if (typeof params[0] == 'string' && isRouteName(params[0])) {
+        return routeUrl(params[0], params[1]);
+    }
     return urlForInner(...params);
-};
\ No newline at end of file
+}
+
+/**
+ * The reverse of the default urlFor: recover the controller, action and other parameters from a url.
+ */
+export function paramsFor(url: string): Partial<UrlOpts> {
+    const [path, query = ''] = url.split('?');
+    const [, controller, action] = path.match(/^(?:https?:\/\/[^\/]+)?\/([^\/]+)\/([^\/]+)/) || [] as string[];
+    return {...parseQuery(query), controller, action};
+}
@@ -0,0 +1,793 @@
+import * as React from "react";
+import {History} from "history";
+import {parse} from "path-to-regexp";
+import {deepCompare, filterNulls, objectDiff} from "./helpers";
+import Api, {JsonApiOptions} from './json-api';
+import generatePath from "./generate-path";
+import {routePath} from "./routes";
+import {JsonApiError} from "./json-api-error";
+import {TransportProgress} from "./transport";
+import {containsBinary} from "./form-data";
+import {Mime} from "./Mime";
+import {deepDiff, DiffOptions, escapePointer, PatchOperation} from "./json-patch";
+import {useDeepMemo} from "./use-resource";
+import {DraftOptions, draftKey, useDraft} from "./use-draft";
+import {QueueCallbacks} from "./offline-queue";
+import {
+    FieldErrors,
+    hasErrors,
+    mergeErrors,
+    serverFieldErrors,
+    Validation,
+    validateField,
+    validateRecord
+} from "./validation";
+
+/**
+ * @docs
+ *
+ * Composing a record in a function component
+ *
+ *   const {get, set, submit, isNew, errorMessage, serverMessage} = useComposer('/samples', integration, props)
+ *   <input value={get.name} onChange={e => set('name')(e.target.value)} />
+ *   <button onClick={submit}>Save</button>
+ *
+ * The third argument holds existingObject (to update a record) or defaultValue (to create one from a template), and
+ * the onSuccess / onError callbacks, exactly as they are passed to a ComposerHOC.
+ *
+ * Validating the record
+ *
+ *   const integration = {
+ *       ...,
+ *       validate: {
+ *           fields: {
+ *               name: [
+ *                   name => !name && 'is required',
+ *                   name => Api.get('/names/taken', {name}).then(taken => taken && 'is taken')
+ *               ],
+ *               email: email => /@/.test(email) ? null : 'is not an email address'
+ *           },
+ *           record: sample => sample.end < sample.start ? {end: ['is before the start']} : {}
+ *       }
+ *   }
+ *   const {errors, touched, touch, isValid, isValidating} = useComposer('/samples', integration, props)
+ *
+ * A field's validators run when it is set, and the record validator whenever any field is set. submit() validates
+ * everything and marks every field touched, and sends nothing if there are errors. The field errors of a 422
+ * response (see Validation#serverErrors) are merged into the same errors, until their field is set again.
+ */
+
+export type DatabaseRecord = { id: number };
+
+export type ServerHandlerType =
+    React.ComponentType<ServerComms & { clearMessages(): void, id?: number }>;
+
+export interface Integration<
+    FromServer extends DatabaseRecord,
+    WithinClient,
+    ExtraFlags = {},
+    NewRecord = Optionalize<FromServer, 'id'> & ExtraFlags,
+    UpdateRecord = DatabaseRecord & Partial<FromServer & ExtraFlags>
+> {
+    /**
+     * Initial state of a new record for composing.
+     */
+    defaultState: WithinClient;
+
+    /**
+     * Transforms a database record from the server into an object for editing in the client.
+     * @param {FromServer} data A database record, should be minimally augmented or not augmented if practical.
+     * @returns {WithinClient}
+     */
+    deserialize?(data: FromServer): WithinClient;
+
+    /**
+     * Transforms a client object into a package of data for the server to save to database. Type ToServer differs from
+     * FromServer in that a new record will not yet have an id field, and may include extraneous fields which the server
+     * will process (see: file uploads). ToServer may be anything, but defaults to the preceding description.
+     * @param {WithinClient} data
+     * @returns {ToServer}
+     */
+    serialize(data: WithinClient): NewRecord|Promise<NewRecord>;
+
+    primaryKey?: keyof FromServer;
+
+    getUrlParams?(data: Partial<FromServer & ExtraFlags>): any;
+
+    serverHandler?: ServerHandlerType
+
+    validate?: Validation<WithinClient>;
+
+    /**
+     * A field of the record holding its version, such as lock_version, which is sent with every update so that the
+     * server can refuse changes to an older version.
+     */
+    versionField?: keyof FromServer;
+
+    /**
+     * Send updates as JSON Patch (application/json-patch+json), with an operation for each change however deep, rather
+     * than as the changed fields. The options match the items of arrays of records (see deepDiff). The versionField,
+     * if any, is sent as a test operation. Updates including files are still sent as their changed fields. Since a
+     * patch doesn't carry the primary key, the save url must name the record, with getUrlParams.
+     */
+    jsonPatch?: boolean | DiffOptions;
+
+    /**
+     * Extracts the record from the response to a GET of its url (see fetchUrl), which fetches the server's version of
+     * the record after a conflict.
+     */
+    serverAdapter?(response: any): FromServer;
+
+    /**
+     * The url of a record, with the same parameters as the save url, from which the server's version is fetched after
+     * a conflict. Defaults to the save url when it names the record (a pattern such as /samples/:id, filled in by
+     * getUrlParams), and otherwise to the save url followed by the record's primary key.
+     */
+    fetchUrl?: string;
+
+    /**
+     * Makes deleting archive the record instead. By default the attributes, such as {archived: true}, are sent in a
+     * PATCH to the save url, like an update; a url (with the same parameters as the save url) and method can be given
+     * for servers with a route of their own.
+     */
+    archive?: {
+        attributes?: Partial<FromServer & ExtraFlags>,
+        url?: string,
+        method?: 'post' | 'patch' | 'put' | 'delete'
+    };
+}
+
+export type SubmitEventInfo = { serverMessage: string, id: number };
+
+export interface ComposerOptions<T> {
+    existingObject?: T;
+    defaultValue?: T;
+
+    /**
+     * Optional callback to call when the composer successfully creates, updates or deletes a record. The event's type
+     * is 'submit', or 'delete' for a deletion or archive.
+     * @param {CustomEvent} e An event object with the following two detail parameters:
+     *      {string} serverMessage The server's response.
+     *      {number} newId An ID number for the new record, if provided.
+     */
+    onSuccess?(e: CustomEvent<SubmitEventInfo>): void
+
+    /**
+     * Optional callback to call when the composer receives an error from the server.
+     * @param {CustomEvent} e An event object with the following detail parameters:
+     *      {string} errorMessage The server's response.
+     *      {JsonApiError} error The failure, with its kind, HTTP status and response body.
+     *      {FieldErrors} errors The field errors of a 422 response, if it had any.
+     */
+    onError?(e: CustomEvent<{errorMessage: string, error: JsonApiError|string, errors?: FieldErrors}>): void
+
+    /**
+     * Ask before leaving while there are unsaved changes: before unloading the page, and before navigating with the
+     * given history.
+     */
+    guardUnsaved?: { history?: History, message?: string };
+
+    /**
+     * Autosave the record as a draft while it has unsaved changes, to be offered when the composer is next opened.
+     */
+    draft?: DraftOptions;
+
+    /**
+     * The version of the existing object, such as the ETag its LoaderHOC reports (see its versionHeader option), which
+     * is sent as If-Match with its changes. The ETag of each successful update replaces it.
+     */
+    version?: string;
+
+    /**
+     * Asked before deleting: a message for window.confirm (which is the default, with a generic message), a function
+     * which resolves whether to go ahead, for a dialog of your own, or false to delete straight away.
+     */
+    confirmDelete?: string | false | (() => boolean | Promise<boolean>);
+}
+
+export type MergeChoices<U> = { [K in keyof U]?: 'mine' | 'theirs' };
+
+/**
+ * A three-way comparison of the record as it was loaded, as it has been edited, and as the server now has it.
+ */
+export interface Conflict<U> {
+    base: U;
+    mine: U;
+    theirs: U;
+    myChanges: Partial<U>;
+    theirChanges: Partial<U>;
+
+    /**
+     * Fields changed on both sides, to different values.
+     */
+    conflictingFields: (keyof U)[];
+
+    /**
+     * Submit the record as edited, over the server's version.
+     */
+    takeMine(): Promise<void>;
+
+    /**
+     * Discard the edits in favour of the server's version.
+     */
+    takeTheirs(): void;
+
+    /**
+     * Combine both sides, taking the given side for the given fields, and otherwise whichever side changed a field (or
+     * mine, where both did). The result is left to be reviewed and submitted.
+     */
+    merge(choices?: MergeChoices<U>): void;
+}
+
+export type ComposerState<U> = ServerComms & GettersSetters<U> & {
+    submit(): Promise<void>;
+    isNew: boolean;
+
+    /**
+     * Progress of a submission which includes files, while it is being uploaded.
+     */
+    uploadProgress?: TransportProgress;
+    clearMessages(): void;
+
+    /**
+     * Messages by field, from the client's validation and the server's last 422 response.
+     */
+    errors: FieldErrors<U>;
+    touched: { [K in keyof U]?: boolean };
+
+    /**
+     * Mark a field touched without setting it, for instance when it loses focus.
+     */
+    touch(field: keyof U): void;
+    isValid: boolean;
+    isValidating: boolean;
+
+    /**
+     * Whether the record differs from the existing object or default value, or what was last saved.
+     */
+    isDirty: boolean;
+    dirtyFields: (keyof U)[];
+
+    /**
+     * Discard the changes, going back to the existing object or default value.
+     */
+    reset(): void;
+
+    /**
+     * Whether a draft saved earlier is on offer. It is replaced by the first autosave of new changes.
+     */
+    hasDraft: boolean;
+
+    /**
+     * Apply the draft's fields to the record.
+     */
+    restoreDraft(): void;
+    discardDraft(): void;
+
+    /**
+     * Set when the server refused an update (with a 409 or 412 response) because the record has changed since it was
+     * loaded.
+     */
+    conflict?: Conflict<U>;
+
+    /**
+     * Delete the existing record, or archive it if the Integration says so, after confirmation.
+     */
+    remove(): Promise<void>;
+    isDeleting: boolean;
+
+    /**
+     * Set while a submission or deletion waits in the offline queue, which sends it when the connection returns. The
+     * changes count as saved meanwhile; success or failure is reported as usual once it is sent.
+     */
+    isQueued: boolean;
+}
+
+const defaultGuardMessage = 'You have unsaved changes. Leave anyway?';
+
+/**
+ * Whether a url has parameters, such as the record's id, so that with getUrlParams it names a record rather than a
+ * collection.
+ */
+function hasParams(url: string) {
+    return parse(routePath(url).replace(/^https?:\/\/[^\/]+/, '')).some(token => typeof token != 'string');
+}
+
+function confirmDeletion(confirmDelete: ComposerOptions<any>['confirmDelete'], archive: boolean): Promise<boolean> {
+    if (confirmDelete === false) {
+        return Promise.resolve(true);
+    }
+    if (typeof confirmDelete == 'function') {
+        return Promise.resolve(confirmDelete());
+    }
+    const message = confirmDelete || (archive ? 'Archive this record?' : 'Delete this record?');
+    return Promise.resolve(typeof window == 'undefined' || !window.confirm || window.confirm(message));
+}
+
+export function useComposer<T extends DatabaseRecord, U, ExtraFlags = {}>(
+    saveUrl: string,
+    integrationSpec: Integration<T, U, ExtraFlags>,
+    options: ComposerOptions<T> = {}
+): ComposerState<U> {
+    type S = {
+        data: U,
+        original: U,
+        uploadProgress?: TransportProgress,
+        fieldErrors: FieldErrors<U>,
+        recordErrors: FieldErrors<U>,
+        serverErrors: FieldErrors<U>,
+        touched: { [K in keyof U]?: boolean },
+        validating: number,
+
+        // the server's record and its version, after a conflict
+        conflict?: { server: T, version: string },
+
+        // the record that updates are a diff from, when it is no longer the existing object
+        base?: T,
+        version?: string,
+        isDeleting?: boolean,
+        isQueued?: boolean
+    } & ServerComms;
+    const {defaultValue, existingObject} = options;
+    const canEdit = integrationSpec.hasOwnProperty('deserialize');
+    const primaryKey = integrationSpec.primaryKey || 'id';
+    const {serialize, deserialize} = integrationSpec;
+
+    if (defaultValue && existingObject) {
+        throw new Error('Either a default object or an existing object can be defined, but not both.')
+    }
+    if (!canEdit && existingObject) {
+        throw new Error('This Composer class can only create. It cannot update.')
+    }
+    if (canEdit && integrationSpec.jsonPatch && !(integrationSpec.getUrlParams && hasParams(saveUrl))) {
+        // a patch has no room for the primary key, so the url has to say which record it is for
+        throw new Error('JSON Patch updates need a save url which names the record, such as /samples/:id.')
+    }
+
+    const initialData = (): U => Object.assign({},
+        integrationSpec.defaultState,
+        defaultValue && filterNulls(deserialize(defaultValue)),
+        existingObject && deserialize(existingObject)
+    );
+    const [state, setState] = React.useState<S>(() => ({
+        data: initialData(),
+        original: initialData(),
+        fieldErrors: {},
+        recordErrors: {},
+        serverErrors: {},
+        touched: {},
+        validating: 0,
+        version: options.version
+    }));
+    const update = (changes: Partial<S>) => setState(s => ({...s, ...(changes as any)}));
+
+    // submit() finishes asynchronously, so it reads the latest props and state rather than those it was created with
+    const latest = React.useRef({options, state});
+    latest.current = {options, state};
+
+    // queued calls may be sent long after the composer has gone
+    const mounted = React.useRef(true);
+    React.useEffect(() => () => {
+        mounted.current = false;
+    }, []);
+
+    const record = useDeepMemo(existingObject);
+    const template = useDeepMemo(defaultValue);
+    const initial = React.useRef(true);
+    React.useEffect(() => {
+        if (!initial.current && canEdit) {
+            update({data: initialData(), original: initialData(), base: null, conflict: null});
+        }
+        initial.current = false;
+    }, [record, template]);
+
+    React.useEffect(() => {
+        const {version} = options;
+        setState(s => s.version === version ? s : {...s, version});
+    }, [options.version]);
+
+    const isNew = !existingObject;
+
+    const dirtyFields = Object.keys(objectDiff(state.original, state.data)) as (keyof U)[];
+    const isDirty = dirtyFields.length > 0;
+
+    const draft = useDraft<U>(
+        draftKey(saveUrl, existingObject && existingObject[primaryKey as 'id'], (options.draft || {}).namespace),
+        state.data,
+        isDirty,
+        options.draft
+    );
+
+    // released as soon as a submission succeeds, so that onSuccess can navigate away
+    const releaseGuard = React.useRef<() => void>(null);
+    const {guardUnsaved} = options;
+    const guardHistory = guardUnsaved && guardUnsaved.history;
+    const guardMessage = guardUnsaved && guardUnsaved.message || defaultGuardMessage;
+    React.useEffect(() => {
+        if (!guardUnsaved || !isDirty || typeof window == 'undefined') {
+            return;
+        }
+        const unblock = guardHistory ? guardHistory.block(guardMessage) : (): void => null;
+        const onBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault();
+            e.returnValue = guardMessage;
+            return guardMessage;
+        };
+        window.addEventListener('beforeunload', onBeforeUnload);
+        let released = false;
+        releaseGuard.current = () => {
+            if (!released) {
+                released = true;
+                unblock();
+                window.removeEventListener('beforeunload', onBeforeUnload);
+            }
+        };
+        return releaseGuard.current;
+    }, [!!guardUnsaved, isDirty, guardHistory, guardMessage]);
+
+    // the latest run for each field (and for the record, under RECORD), so that slower, older runs are ignored
+    const validationRuns = React.useRef<Record<string, number>>({});
+    const RECORD = '\0record';
+
+    /**
+     * Validate these fields and the record, recording the errors unless a later run has overtaken this one. A validator
+     * which fails, such as one asking the server while it can't be reached, reports the failure as its error.
+     * @returns the errors found
+     */
+    async function runValidation(data: U, fields: (keyof U)[]): Promise<FieldErrors<U>> {
+        const validation = integrationSpec.validate;
+        if (!validation) {
+            return {};
+        }
+        const runs = validationRuns.current;
+        const keys = fields.map(String).concat(RECORD);
+        const ids = keys.map(key => runs[key] = (runs[key] || 0) + 1);
+        const isLatest = (index: number) => runs[keys[index]] === ids[index];
+        setState(s => ({...s, validating: s.validating + 1}));
+
+        const failure = (e: any) => [e instanceof Error ? e.message : `${e}`];
+        const [results, recordErrors] = await Promise.all([
+            Promise.all(fields.map(field => validateField(validation, field, data).catch(failure))),
+            validateRecord(validation, data).catch(e => ({base: failure(e)}) as FieldErrors<U>)
+        ]);
+        const fieldErrors: FieldErrors<U> = {};
+        fields.forEach((field, i) => (fieldErrors as any)[field] = results[i]);
+        setState(s => {
+            const latestFieldErrors = {...(s.fieldErrors as any)};
+            fields.forEach((field, i) => isLatest(i) && (latestFieldErrors[field] = results[i]));
+            return {
+                ...s,
+                fieldErrors: latestFieldErrors,
+                recordErrors: isLatest(keys.length - 1) ? recordErrors : s.recordErrors,
+                validating: s.validating - 1
+            };
+        });
+        return mergeErrors(fieldErrors, recordErrors);
+    }
+
+    // validate the fields which have changed
+    const validated = React.useRef(state.data);
+    React.useEffect(() => {
+        const previous = validated.current;
+        validated.current = state.data;
+        const changed = Object.keys(state.data).filter(key => (previous as any)[key] !== (state.data as any)[key]);
+        if (changed.length) {
+            runValidation(state.data, changed as (keyof U)[]);
+        }
+    }, [state.data]);
+
+    async function buildAttributes(initial: T, updated: U): Promise<Partial<T & ExtraFlags>|PatchOperation[]> {
+        const serialized = await serialize(updated);
+        if (canEdit && initial && integrationSpec.jsonPatch && !containsBinary(serialized)) {
+            const {jsonPatch, versionField} = integrationSpec;
+            const operations = deepDiff(
+                await serialize(deserialize(initial)),
+                serialized,
+                typeof jsonPatch == 'object' ? jsonPatch : {}
+            );
+            if (versionField && operations.length) {
+                const path = `/${escapePointer(versionField as string)}`;
+                operations.unshift({op: 'test', path, value: initial[versionField]});
+            }
+            return operations;
+        }
+        if (canEdit && initial) {
+            // this is an update
+            let diff = objectDiff(await serialize(deserialize(initial)), serialized);
+            if (diff[primaryKey as 'id']) {
+                (diff as any)[`updated_${primaryKey}`] = diff[primaryKey as 'id']
+            }
+            diff[primaryKey as 'id'] = initial[primaryKey as 'id'];
+            if (integrationSpec.versionField) {
+                (diff as any)[integrationSpec.versionField] = initial[integrationSpec.versionField];
+            }
+            return diff as Partial<T & ExtraFlags>;
+        }
+        return serialized;
+    }
+
+    function apiRequest(url: string, data: any, isNew: boolean, version: string) {
+        const options: JsonApiOptions = containsBinary(data) ?
+            {onUploadProgress: (uploadProgress: TransportProgress) => update({uploadProgress})} :
+            {};
+        if (Array.isArray(data)) {
+            options.contentType = Mime.jsonPatch.utf8;
+        }
+        if (!isNew) {
+            if (version) {
+                options.headers = {'If-Match': version};
+            }
+            options.onResponse = response => response.headers.etag && update({version: response.headers.etag});
+        }
+        options.queue = whenSent('submit');
+        return isNew ?
+            Api.post(url, data, options) :
+            Api.patch(url, data, options);
+    }
+
+    /**
+     * The url of an existing record: the save url, with the record's primary key appended unless it names the record.
+     */
+    function recordUrl(record: T): string {
+        const {getUrlParams} = integrationSpec;
+        const url = generatePath(saveUrl, getUrlParams ? getUrlParams(deserialize(record)) : {});
+        return getUrlParams && hasParams(saveUrl) ?
+            url :
+            `${url.replace(/\/$/, '')}/${encodeURIComponent(`${record[primaryKey as 'id']}`)}`;
+    }
+
+    /**
+     * Fetch the server's version of a record whose update was refused.
+     */
+    function fetchConflict(record: T): Promise<{ server: T, version: string }> {
+        const {serverAdapter = (response: any) => response, getUrlParams, fetchUrl} = integrationSpec;
+        const url = fetchUrl ?
+            generatePath(fetchUrl, getUrlParams ? getUrlParams(deserialize(record)) : {}) :
+            recordUrl(record);
+        let version: string;
+        return Api.get(url, undefined, {
+            cache: false,
+            onResponse: response => version = response.headers.etag
+        }).then(response => ({server: serverAdapter(response), version}));
+    }
+
+    /**
+     * Report a successful submission or deletion, which leaves nothing unsaved.
+     */
+    function succeed(type: string, {message: serverMessage, id, redirectTo}: any) {
+        const {onSuccess} = latest.current.options;
+        releaseGuard.current && releaseGuard.current();
+        draft.remove();
+        const e = new CustomEvent(type, {detail: {serverMessage, id}});
+        onSuccess && onSuccess(e);
+        if (!e.defaultPrevented) {
+            if (redirectTo) {
+                update({ redirectTo, serverMessage });
+            } else {
+                update({ serverMessage });
+            }
+        }
+    }
+
+    /**
+     * Report a call sent from the offline queue.
+     */
+    function whenSent(type: string): QueueCallbacks {
+        return {
+            onSent: response => {
+                if (mounted.current) {
+                    update({isQueued: false});
+                    succeed(type, response);
+                }
+            },
+            onError: error => {
+                if (mounted.current) {
+                    const {onError} = latest.current.options;
+                    const errorMessage = `${error}`;
+                    update({isQueued: false});
+                    const e = new CustomEvent(type, {detail: {errorMessage, error}});
+                    onError && onError(e);
+                    if (!e.defaultPrevented) {
+                        update({errorMessage});
+                    }
+                }
+            }
+        };
+    }
+
+    /**
+     * Note a call which was queued to be sent when the connection returns. Its changes are kept there now, rather than
+     * in the draft.
+     */
+    function wasQueued(error: JsonApiError|string) {
+        if (error instanceof JsonApiError && error.kind == 'queued') {
+            releaseGuard.current && releaseGuard.current();
+            draft.remove();
+            return true;
+        }
+        return false;
+    }
+
+    function submit() {
+        const {options: {existingObject}, state} = latest.current;
+        return save(existingObject && (state.base || existingObject), state.version);
+    }
+
+    async function save(existingObject: T, version: string) {
+        const {options: {onError}, state} = latest.current;
+        const isNew = !existingObject;
+
+        const validation = integrationSpec.validate;
+        if (validation) {
+            const fields = Object.keys({...(state.data as any), ...(validation.fields as any)}) as (keyof U)[];
+            const touched: { [K in keyof U]?: boolean } = {};
+            fields.forEach(field => touched[field] = true);
+            update({touched});
+            if (hasErrors(await runValidation(state.data, fields))) {
+                return;
+            }
+        }
+        const attributes = await buildAttributes(existingObject, state.data);
+
+        if (Array.isArray(attributes) ? !attributes.length : Object.keys(attributes).length === 1 && attributes.id) {
+            update({errorMessage: 'No data has changed'});
+            return;
+        }
+
+        let url = routePath(saveUrl);
+        if (integrationSpec.getUrlParams) {
+            let existingParams = isNew ? {} : deserialize(existingObject);
+            url = generatePath(url, integrationSpec.getUrlParams(existingParams));
+        }
+        let request = apiRequest(url, attributes, isNew, version);
+
+        return request.then(
+            (response: any) => {
+                update({uploadProgress: null, serverErrors: {}, original: state.data, conflict: null});
+                succeed('submit', response);
+            },
+            async (error: JsonApiError|string) => {
+                if (wasQueued(error)) {
+                    update({uploadProgress: null, serverErrors: {}, original: state.data, isQueued: true});
+                    return;
+                }
+                const errorMessage = `${error}`;
+                const errors = serverFieldErrors(error, integrationSpec.validate);
+                let conflict: { server: T, version: string } = null;
+                if (!isNew && error instanceof JsonApiError && (error.status === 409 || error.status === 412)) {
+                    // without the server's record there is nothing to resolve, so this is reported as any failure
+                    conflict = await fetchConflict(existingObject).catch((): null => null);
+                }
+                update({uploadProgress: null, serverErrors: errors || {}, conflict});
+                const e = new CustomEvent('submit', {detail: {errorMessage, error, errors}});
+                onError && onError(e);
+                if (!e.defaultPrevented && !errors && !conflict) {
+                    // field errors are shown with their fields, and conflicts by the renderer
+                    update({errorMessage})
+                }
+            }
+        )
+    }
+
+    async function remove() {
+        const {options: {existingObject, confirmDelete, onError}, state} = latest.current;
+        const {archive} = integrationSpec;
+        if (!existingObject || state.isDeleting || !await confirmDeletion(confirmDelete, !!archive)) {
+            return;
+        }
+        const record = state.base || existingObject;
+        const params = integrationSpec.getUrlParams ? integrationSpec.getUrlParams(deserialize(record)) : {};
+        const key = {[primaryKey]: record[primaryKey as 'id']};
+        update({isDeleting: true});
+
+        const request = archive ?
+            Api[archive.method || 'patch'](
+                generatePath(archive.url || saveUrl, params),
+                Object.assign({}, key, archive.attributes),
+                {queue: whenSent('delete')}
+            ) :
+            Api.delete(recordUrl(record), undefined, {queue: whenSent('delete')});
+        return request.then(
+            (response: any) => {
+                update({isDeleting: false});
+                succeed('delete', response);
+            },
+            (error: JsonApiError|string) => {
+                if (wasQueued(error)) {
+                    update({isDeleting: false, isQueued: true});
+                    return;
+                }
+                const errorMessage = `${error}`;
+                update({isDeleting: false});
+                const e = new CustomEvent('delete', {detail: {errorMessage, error}});
+                onError && onError(e);
+                if (!e.defaultPrevented) {
+                    update({errorMessage});
+                }
+            }
+        );
+    }
+
+    function resolveConflict(data: U) {
+        const {server, version} = state.conflict;
+        update({data, original: deserialize(server), base: server, version, conflict: null, serverErrors: {}});
+    }
+
+    function describeConflict(): Conflict<U> {
+        if (!state.conflict) {
+            return undefined;
+        }
+        const {server, version} = state.conflict;
+        const base = deserialize(state.base || existingObject);
+        const mine = state.data;
+        const theirs = deserialize(server);
+        const myChanges = objectDiff(base, mine);
+        const theirChanges = objectDiff(base, theirs);
+        const conflictingFields = (Object.keys(myChanges) as (keyof U)[]).filter(field =>
+            theirChanges.hasOwnProperty(field) && !deepCompare(mine[field], theirs[field])
+        );
+        return {
+            base, mine, theirs, myChanges, theirChanges, conflictingFields,
+            takeMine: () => {
+                update({base: server, version, conflict: null});
+                return save(server, version);
+            },
+            takeTheirs: () => resolveConflict(theirs),
+            merge: (choices = {}) => {
+                const merged = {...(mine as any)};
+                for (let field in theirs) if (theirs.hasOwnProperty(field)) {
+                    const choice = choices[field] || (myChanges.hasOwnProperty(field) ? 'mine' : 'theirs');
+                    merged[field] = choice == 'mine' ? mine[field] : theirs[field];
+                }
+                resolveConflict(merged);
+            }
+        };
+    }
+
+    const errors = mergeErrors(state.fieldErrors, state.recordErrors, state.serverErrors);
+
+    return {
+        get: state.data,
+        set: <K extends keyof U>(key: K) => (value: U[K]) => setState(s => ({
+            ...s,
+            data: Object.assign({}, s.data, {[key]: value}),
+            touched: Object.assign({}, s.touched, {[key]: true}),
+            serverErrors: Object.assign({}, s.serverErrors, {[key]: []})
+        })),
+        submit,
+        isNew,
+        uploadProgress: state.uploadProgress,
+        serverMessage: state.serverMessage,
+        errorMessage: state.errorMessage,
+        redirectTo: state.redirectTo,
+        clearMessages: () => update({errorMessage: null, serverMessage: null}),
+        errors,
+        touched: state.touched,
+        touch: field => setState(s => ({...s, touched: Object.assign({}, s.touched, {[field]: true})})),
+        isValid: !hasErrors(errors),
+        isValidating: state.validating > 0,
+        isDirty,
+        dirtyFields,
+        reset: () => update({
+            data: initialData(),
+            original: initialData(),
+            touched: {},
+            fieldErrors: {},
+            recordErrors: {},
+            serverErrors: {}
+        }),
+        hasDraft: !!draft.draft,
+        restoreDraft: () => {
+            const {draft: saved} = draft;
+            if (saved) {
+                setState(s => ({...s, data: Object.assign({}, s.data, saved)}));
+                draft.dismiss();
+            }
+        },
+        discardDraft: draft.remove,
+        conflict: describeConflict(),
+        remove,
+        isDeleting: !!state.isDeleting,
+        isQueued: !!state.isQueued
+    };
+}
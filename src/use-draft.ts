@@ -0,0 +1,192 @@
+import * as React from "react";
+import {containsBinary} from "./form-data";
+
+/**
+ * Drafts of the records being composed, saved as they are edited so that they can be recovered after the page is
+ * closed or the session lost.
+ *
+ * A draft is the record as JSON. Fields holding a File or Blob (anywhere within them) are left out, since files can't
+ * be stored that way; restoring a draft leaves those fields as they are, so files have to be chosen again.
+ */
+
+/**
+ * The subset of the Web Storage API that drafts need, so localStorage and sessionStorage can be used directly.
+ * Other backends, such as IndexedDB, may return promises instead.
+ */
+export interface DraftStorage {
+    getItem(key: string): string | null | Promise<string | null>;
+    setItem(key: string, value: string): void | Promise<void>;
+    removeItem(key: string): void | Promise<void>;
+}
+
+export interface DraftOptions {
+    /**
+     * Defaults to localStorage.
+     */
+    storage?: DraftStorage;
+
+    /**
+     * Part of every key, to keep apart the drafts of different users of the same browser, for instance.
+     */
+    namespace?: string;
+
+    /**
+     * Milliseconds without changes before the draft is saved.
+     */
+    delay?: number;
+}
+
+/**
+ * Keeps drafts in memory, for tests or where nothing should outlive the page.
+ */
+export function memoryStorage(): DraftStorage {
+    const items = new Map<string, string>();
+    return {
+        getItem: key => items.has(key) ? items.get(key) : null,
+        setItem: (key, value) => {
+            items.set(key, value);
+        },
+        removeItem: key => {
+            items.delete(key);
+        }
+    };
+}
+
+export function draftKey(saveUrl: string, id: any, namespace?: string) {
+    return ['draft', namespace, saveUrl, id == null ? 'new' : id].filter(part => part !== undefined).join(':');
+}
+
+interface StoredDraft {
+    savedAt: number;
+    data: any;
+}
+
+function withoutFiles(data: any) {
+    const stored: any = {};
+    for (let field in data) if (data.hasOwnProperty(field) && !containsBinary(data[field])) {
+        stored[field] = data[field];
+    }
+    return stored;
+}
+
+function defaultStorage(): DraftStorage {
+    return typeof localStorage != 'undefined' ? localStorage : memoryStorage();
+}
+
+// errors such as a full quota only cost the draft
+function attempt<T>(operation: () => T | Promise<T>): Promise<T> {
+    return new Promise<T>(resolve => resolve(operation())).catch((): T => null);
+}
+
+export interface DraftState<U> {
+    /**
+     * A draft saved earlier, until it is restored, discarded or replaced by a newer one.
+     */
+    draft: Partial<U>;
+    savedAt: number;
+
+    /**
+     * Stop offering the earlier draft, without deleting it.
+     */
+    dismiss(): void;
+
+    /**
+     * Delete the draft, and any save still waiting.
+     */
+    remove(): void;
+}
+
+/**
+ * Saves the data under the key while it has unsaved changes, and offers the draft found there on mount.
+ * Does nothing without options.
+ */
+export function useDraft<U>(key: string, data: U, isDirty: boolean, options: DraftOptions): DraftState<U> {
+    const [found, setFound] = React.useState<StoredDraft>(null);
+    const storage = options && (options.storage || defaultStorage());
+    const delay = options && options.delay !== undefined ? options.delay : 1000;
+    const pendingSave = React.useRef<{ timer: any, save: () => void }>(null);
+
+    React.useEffect(() => {
+        setFound(null);
+        if (!storage) {
+            return;
+        }
+        let current = true;
+        attempt(() => storage.getItem(key)).then(json => {
+            let stored: StoredDraft = null;
+            try {
+                stored = json && JSON.parse(json);
+            } catch (e) {
+                // not ours, or corrupt; it will be overwritten
+            }
+            if (current && stored && stored.data) {
+                setFound(stored);
+            }
+        });
+        return () => {
+            current = false;
+        };
+    }, [key, !!storage]);
+
+    const mounted = React.useRef(true);
+    React.useEffect(() => () => {
+        mounted.current = false;
+    }, []);
+
+    // only reads refs, so any render's copy will do
+    const flush = () => {
+        const pending = pendingSave.current;
+        if (pending) {
+            pendingSave.current = null;
+            clearTimeout(pending.timer);
+            pending.save();
+        }
+    };
+    const cancelSave = () => {
+        if (pendingSave.current) {
+            clearTimeout(pendingSave.current.timer);
+            pendingSave.current = null;
+        }
+    };
+
+    React.useEffect(() => {
+        cancelSave();
+        if (!storage || !isDirty) {
+            return;
+        }
+        const save = () => {
+            const stored: StoredDraft = {savedAt: Date.now(), data: withoutFiles(data)};
+            attempt(() => storage.setItem(key, JSON.stringify(stored)));
+            // the earlier draft has now been overwritten
+            if (mounted.current) {
+                setFound(null);
+            }
+        };
+        pendingSave.current = {timer: setTimeout(flush, delay), save};
+    }, [data, isDirty, key, !!storage]);
+
+    // save what is waiting before the page or the composer goes away
+    React.useEffect(() => {
+        if (!storage || typeof window == 'undefined') {
+            return flush;
+        }
+        window.addEventListener('beforeunload', flush);
+        return () => {
+            window.removeEventListener('beforeunload', flush);
+            flush();
+        };
+    }, [!!storage]);
+
+    return {
+        draft: found && found.data,
+        savedAt: found && found.savedAt,
+        dismiss: () => setFound(null),
+        remove: () => {
+            cancelSave();
+            setFound(null);
+            if (storage) {
+                attempt(() => storage.removeItem(key));
+            }
+        }
+    };
+}
@@ -0,0 +1,237 @@
+import * as React from 'react';
+import JsonApi from "./json-api";
+import {JsonApiError} from "./json-api-error";
+import generatePath from "./generate-path";
+import {parseQuery} from "./query-string";
+import {ResourceOptions, ResourceState, useDeepMemo, useLatestRequest, useRevalidation} from "./use-resource";
+
+/**
+ * @docs
+ *
+ * Loading a paginated resource
+ *
+ *   const {data, page, totalCount, hasMore, loadMore, goToPage} = usePagedResource<Sample>('/samples', query, {
+ *       pagination: { strategy: 'page', pageSize: 50 }
+ *   })
+ *
+ * Strategies, and the query parameters they add (names configurable through `params`):
+ *   offset  offset=100&limit=50
+ *   page    page=3&per_page=50
+ *   cursor  cursor=abc&limit=50, where each cursor comes from the previous page's `Link: <...>; rel="next"` header
+ *           or its nextCursorField
+ *
+ * The items of a page are the response itself if it is an array, otherwise its itemsField ('data' by default).
+ * A serverAdapter given in the options (but not the global default) is applied to the items of each page.
+ * The total count is read from the totalCountField, or else the totalCountHeader (X-Total-Count by default).
+ *
+ * In append mode (for infinite scrolling), loadMore() adds the next page to data instead of replacing it.
+ *
+ * onLoad receives the items of each page as it arrives.
+ *
+ * refreshInterval, revalidateOnFocus and revalidateOnReconnect reload the current page, or in append mode the first.
+ */
+
+export interface PaginationOptions {
+    strategy: 'offset' | 'page' | 'cursor';
+    pageSize?: number;
+    params?: {
+        offset?: string;
+        limit?: string;
+        page?: string;
+        perPage?: string;
+        cursor?: string;
+    };
+
+    /**
+     * Dot-separated paths into an object response body, e.g. 'meta.total'.
+     */
+    itemsField?: string;
+    totalCountField?: string;
+    nextCursorField?: string;
+    totalCountHeader?: string;
+    append?: boolean;
+}
+
+export interface PageControls {
+    /**
+     * The current page, counting from 1. In append mode, the last page loaded.
+     */
+    page: number;
+
+    /**
+     * Null if the server doesn't report it.
+     */
+    totalCount: number;
+    hasMore: boolean;
+    loadingPage: boolean;
+    loadMore(): void;
+    goToPage(page: number): void;
+
+    /**
+     * Abandon a page change which is still loading.
+     */
+    cancelPageChange(): void;
+}
+
+export type PagedResourceOptions<ItemType> = ResourceOptions<ItemType[]> & { pagination: PaginationOptions };
+
+const defaultParams = {offset: 'offset', limit: 'limit', page: 'page', perPage: 'per_page', cursor: 'cursor'};
+
+function pluck(obj: any, path: string) {
+    return path.split('.').reduce((value, key) => value == null ? undefined : value[key], obj);
+}
+
+/**
+ * Parse an RFC 8288 Link header into urls by relation.
+ */
+export function parseLinkHeader(header: string): Record<string, string> {
+    const links: Record<string, string> = {};
+    for (let part of (header || '').split(/,(?=\s*<)/)) {
+        const match = part.match(/<([^>]*)>(.*)/);
+        const rel = match && match[2].match(/rel="?([^";]+)"?/);
+        if (rel) {
+            for (let name of rel[1].split(/\s+/)) {
+                links[name] = match[1];
+            }
+        }
+    }
+    return links;
+}
+
+export function usePagedResource<ItemType = any, ApiParams = any>(
+    apiUrl: string,
+    apiQuery: ApiParams,
+    options: PagedResourceOptions<ItemType>
+): ResourceState<ItemType[]> & PageControls {
+    type State = {
+        data?: ItemType[];
+        error?: JsonApiError|string;
+        loading: boolean;
+        page: number;
+        totalCount: number;
+        hasMore: boolean;
+    };
+    const query = useDeepMemo(apiQuery);
+    const urlParams = useDeepMemo(options.urlParams);
+    const [state, setState] = React.useState<State>({loading: true, page: 1, totalCount: null, hasMore: false});
+
+    const latest = React.useRef({options, state});
+    latest.current = {options, state};
+
+    // cursors[n] fetches page n + 1; the first page needs none
+    const cursors = React.useRef<string[]>([undefined]);
+    const requests = useLatestRequest(options.onCancel);
+
+    const cancelPageChange = React.useCallback(() => {
+        if (requests.cancel()) {
+            setState(s => ({...s, loading: false}));
+        }
+    }, []);
+
+    const load = React.useCallback((page: number, append: boolean) => {
+        const {serverAdapter = (x: any) => x, renderOnEmptyResult, onError, onLoadStart, onLoad, pagination} =
+            latest.current.options;
+        const {strategy, pageSize = 25} = pagination;
+        const params = {...defaultParams, ...pagination.params};
+        const pageQuery: any =
+            strategy === 'offset' ? {[params.offset]: (page - 1) * pageSize, [params.limit]: pageSize} :
+            strategy === 'page' ? {[params.page]: page, [params.perPage]: pageSize} :
+            {[params.cursor]: cursors.current[page - 1], [params.limit]: pageSize};
+
+        requests.cancel();
+        onLoadStart && onLoadStart();
+        setState(s => ({...s, loading: true}));
+        let headers: Record<string, string> = {};
+        requests.track(
+            JsonApi.get(generatePath(apiUrl, urlParams || {}), {...(query as any), ...pageQuery}, {
+                interceptors: [{
+                    response: response => {
+                        headers = response.headers;
+                        return response;
+                    }
+                }]
+            }),
+            response => {
+                const items: ItemType[] = serverAdapter(
+                    Array.isArray(response) ? response : pluck(response, pagination.itemsField || 'data') || []
+                );
+                const links = parseLinkHeader(headers['link']);
+                const countHeader = headers[(pagination.totalCountHeader || 'x-total-count').toLowerCase()];
+                const reportedCount = pagination.totalCountField ? pluck(response, pagination.totalCountField) :
+                    countHeader;
+                const totalCount: number = reportedCount == null ? null : parseInt(reportedCount, 10);
+                const nextCursor = pagination.nextCursorField ? pluck(response, pagination.nextCursorField) :
+                    links['next'] ? parseQuery(links['next'].split('?')[1] || '')[params.cursor] : undefined;
+                cursors.current[page] = nextCursor;
+                const hasMore =
+                    headers['link'] !== undefined ? !!links['next'] :
+                    totalCount !== null ? page * pageSize < totalCount :
+                    strategy === 'cursor' ? !!nextCursor :
+                    items.length === pageSize;
+
+                if (page === 1 && items.length == 0 && !renderOnEmptyResult) {
+                    setState({error: 'No results', loading: false, page, totalCount, hasMore});
+                } else {
+                    setState(s => ({
+                        data: append && s.data ? s.data.concat(items) : items,
+                        loading: false,
+                        page,
+                        totalCount,
+                        hasMore
+                    }));
+                }
+                onLoad && onLoad(items);
+            },
+            error => {
+                if (onError && onError(error) === false) {
+                    setState(s => ({...s, loading: false}));
+                } else {
+                    setState(s => ({...s, error, loading: false}));
+                }
+            }
+        );
+    }, [apiUrl, urlParams, query]);
+
+    const initial = React.useRef(true);
+    React.useEffect(() => {
+        if (!initial.current) {
+            // the query changed, so start over, showing the current data until the first page arrives
+            setState(s => ({data: s.data, loading: true, page: 1, totalCount: null, hasMore: false}));
+        }
+        initial.current = false;
+        cursors.current = [undefined];
+        load(1, false);
+    }, [load]);
+
+    const goToPage = React.useCallback((page: number) => {
+        if (options.pagination.strategy === 'cursor' && !(page - 1 in cursors.current)) {
+            throw new Error(`Page ${page} can't be reached directly with cursor pagination.`);
+        }
+        load(page, false);
+    }, [load]);
+    const loadMore = React.useCallback(() => {
+        const {state: {page, hasMore}, options: {pagination}} = latest.current;
+        if (hasMore) {
+            load(page + 1, !!pagination.append);
+        }
+    }, [load]);
+    const reload = React.useCallback((clearData?: boolean) => {
+        if (clearData) {
+            setState(s => ({...s, data: null}));
+        }
+        const {state: {page}, options: {pagination}} = latest.current;
+        // appended pages can't be refreshed one at a time
+        load(pagination.append ? 1 : page, false);
+    }, [load]);
+    useRevalidation(reload, options);
+
+    return {
+        ...state,
+        loadingPage: state.loading && !!state.data,
+        isRefreshing: state.loading && !!state.data,
+        reload,
+        loadMore,
+        goToPage,
+        cancelPageChange
+    };
+}
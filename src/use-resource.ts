@@ -0,0 +1,345 @@
+import * as React from 'react';
+import {deepCompare} from "./helpers";
+import JsonApi, {getUrl} from "./json-api";
+import {JsonApiError} from "./json-api-error";
+import generatePath from "./generate-path";
+import {seededResponse} from "./ssr";
+
+/**
+ * @docs
+ *
+ * Loading a resource in a function component
+ *
+ *   const {data, error, loading, reload} = useResource<ResultType>(url, { id })
+ *
+ * The resource is fetched on mount, and again whenever the url, the query or the url parameters change (compared
+ * deeply, so passing a new but identical object each render is fine). The options follow LoaderHOC's:
+ *
+ *   useResource<ResultType>('/samples/:sampleId/runs', { status: 'done' }, {
+ *       urlParams: { sampleId },
+ *       serverAdapter: data => data.runs,
+ *       renderOnEmptyResult: true
+ *   })
+ *
+ * An empty array response results in the error 'No results', unless renderOnEmptyResult is set.
+ *
+ * Keeping the resource fresh
+ *
+ *   useResource<ResultType>('/runs', { status: 'running' }, {
+ *       refreshInterval: 5000,
+ *       revalidateOnFocus: true,
+ *       revalidateOnReconnect: true
+ *   })
+ *
+ * Polling pauses while the page is hidden, and catches up as soon as it is shown again if a refresh was missed.
+ * While the resource is being fetched again, including after the query changes, the previous data is kept and
+ * isRefreshing is set. A request still in flight is cancelled when the query changes or the component unmounts.
+ *
+ * Following each request
+ *
+ *   useResource<ResultType>(url, query, {
+ *       onLoadStart: () => ...,
+ *       onLoad: data => ...,         // with the adapted data; failures go to onError instead
+ *       onCancel: () => ...          // the request was superseded, or the component unmounted
+ *   })
+ *
+ * Only the latest request can change the state, so a slow response to an old query never replaces newer data.
+ */
+
+let defaultServerAdapter = (x: any) => x;
+
+export function configureDefaults(options: {
+    serverAdapter?: (response: any) => any
+}) {
+    if (options.serverAdapter) {
+        defaultServerAdapter = options.serverAdapter;
+    }
+}
+
+export interface ResourceOptions<ResultType> extends RevalidationOptions {
+    serverAdapter?: (response: any) => ResultType;
+
+    /**
+     * Parameters for the url's path-to-regexp pattern, as returned by LoaderHOC's getUrlParams.
+     */
+    urlParams?: any;
+    renderOnEmptyResult?: boolean;
+
+    /**
+     * A response header to report as the version of the resource, usually 'ETag', for a ComposerHOC to send back
+     * with its changes. Cached responses have no headers, so the resource is always requested afresh.
+     */
+    versionHeader?: string;
+
+    /**
+     * While set, nothing is requested, for instance until the data the query depends on has arrived.
+     */
+    wait?: boolean;
+
+    /**
+     * Return false to keep the error out of the returned state.
+     */
+    onError?: ServerHooks['onError'];
+
+    /**
+     * Called as each request is sent.
+     */
+    onLoadStart?(): any;
+
+    /**
+     * Called with the data, after the serverAdapter, when a request succeeds.
+     */
+    onLoad?(data: ResultType): any;
+
+    /**
+     * Called when a request still in flight is abandoned, because another replaced it or the component unmounted.
+     */
+    onCancel?(): any;
+}
+
+export interface RevalidationOptions {
+    /**
+     * Milliseconds between reloads. Polling is paused while the page is hidden.
+     */
+    refreshInterval?: number;
+    revalidateOnFocus?: boolean;
+    revalidateOnReconnect?: boolean;
+}
+
+export interface ResourceState<ResultType> {
+    data?: ResultType;
+    error?: JsonApiError|string;
+    loading: boolean;
+
+    /**
+     * Set while data is being fetched again, and the data from the last load is still shown.
+     */
+    isRefreshing: boolean;
+
+    /**
+     * The value of the versionHeader in the last response, if one was asked for.
+     */
+    version?: string;
+
+    /**
+     * Fetch the resource again, optionally discarding the current data first.
+     */
+    reload(clearData?: boolean): void;
+
+    /**
+     * Change the data in place without fetching it, for instance with an update pushed by the server.
+     */
+    mutate?(update: (data: ResultType) => ResultType): void;
+}
+
+/**
+ * Returns the previous value for as long as the new one is deeply equal to it.
+ */
+export function useDeepMemo<T>(value: T): T {
+    const ref = React.useRef(value);
+    if (!deepCompare(ref.current, value)) {
+        ref.current = value;
+    }
+    return ref.current;
+}
+
+/**
+ * Calls reload on a timer and on window focus or reconnection, as the options ask.
+ */
+export function useRevalidation(reload: () => void, options: RevalidationOptions) {
+    const {refreshInterval, revalidateOnFocus, revalidateOnReconnect} = options;
+
+    React.useEffect(() => {
+        if (typeof window == 'undefined') {
+            return;
+        }
+        const cleanups: (() => void)[] = [];
+        const listen = (target: EventTarget, event: string, handler: () => void) => {
+            target.addEventListener(event, handler);
+            cleanups.push(() => target.removeEventListener(event, handler));
+        };
+        const revalidate = () => reload();
+        const hidden = () => typeof document != 'undefined' && document.visibilityState === 'hidden';
+
+        if (refreshInterval > 0) {
+            let timer: any;
+            let lastRefresh = Date.now();
+            const refresh = () => {
+                lastRefresh = Date.now();
+                revalidate();
+                schedule(refreshInterval);
+            };
+            const schedule = (delay: number) => {
+                clearTimeout(timer);
+                timer = hidden() ? null : setTimeout(refresh, delay);
+            };
+            schedule(refreshInterval);
+            if (typeof document != 'undefined') {
+                listen(document, 'visibilitychange', () => {
+                    const overdue = Date.now() - lastRefresh >= refreshInterval;
+                    if (!hidden() && overdue) {
+                        refresh();
+                    } else {
+                        schedule(refreshInterval - (Date.now() - lastRefresh));
+                    }
+                });
+            }
+            cleanups.push(() => clearTimeout(timer));
+        }
+        if (revalidateOnFocus) {
+            listen(window, 'focus', revalidate);
+        }
+        if (revalidateOnReconnect) {
+            listen(window, 'online', revalidate);
+        }
+        return () => cleanups.forEach(cleanup => cleanup());
+    }, [reload, refreshInterval, revalidateOnFocus, revalidateOnReconnect]);
+}
+
+/**
+ * Keeps track of a component's current request. Starting another one, or unmounting, cancels it, and the callbacks
+ * of a request which has been superseded are never run, even if its response still arrives.
+ */
+export function useLatestRequest(onCancel?: () => any) {
+    const latestOnCancel = React.useRef(onCancel);
+    latestOnCancel.current = onCancel;
+    const current = React.useRef<CancellablePromise<any>>(null);
+    const sequence = React.useRef(0);
+
+    /**
+     * @returns whether there was a request in flight
+     */
+    const cancel = React.useCallback((): boolean => {
+        sequence.current++;
+        if (!current.current) {
+            return false;
+        }
+        current.current.cancel();
+        current.current = null;
+        latestOnCancel.current && latestOnCancel.current();
+        return true;
+    }, []);
+
+    const track = React.useCallback(<T>(
+        request: CancellablePromise<T>,
+        onSuccess: (value: T) => void,
+        onFailure: (error: JsonApiError|string) => void
+    ) => {
+        cancel();
+        const id = sequence.current;
+        const ifLatest = (callback: (result: any) => void) => (result: any) => {
+            if (id === sequence.current) {
+                current.current = null;
+                callback(result);
+            }
+        };
+        current.current = request;
+        request.then(ifLatest(onSuccess), ifLatest(onFailure));
+    }, []);
+
+    React.useEffect(() => () => {
+        cancel();
+    }, []);
+
+    return {track, cancel};
+}
+
+function loadedState<ResultType>(data: ResultType, renderOnEmptyResult: boolean) {
+    return Array.isArray(data) && data.length == 0 && !renderOnEmptyResult ?
+        {error: 'No results', loading: false} :
+        {data, loading: false};
+}
+
+export function useResource<ResultType = any, ApiParams = any>(
+    apiUrl: string,
+    apiQuery?: ApiParams,
+    options: ResourceOptions<ResultType> = {}
+): ResourceState<ResultType> {
+    type State = { data?: ResultType; error?: JsonApiError|string; loading: boolean, version?: string };
+    const query = useDeepMemo(apiQuery);
+    const urlParams = useDeepMemo(options.urlParams);
+
+    // data prefetched on the server, or already cached, is shown on the first render without a request
+    const seeded = React.useRef(false);
+    const [state, setState] = React.useState<State>(() => {
+        const response = options.wait ? undefined :
+            seededResponse(
+                getUrl(generatePath(apiUrl, options.urlParams || {}), apiQuery),
+                options.versionHeader ? {cache: false} : {}
+            );
+        if (response === undefined) {
+            return {loading: true};
+        }
+        // seeded responses have no headers, so a version still has to be requested
+        seeded.current = !options.versionHeader;
+        return loadedState((options.serverAdapter || defaultServerAdapter)(response), options.renderOnEmptyResult);
+    });
+
+    // callbacks are usually new on every render, and shouldn't cause a reload
+    const latest = React.useRef(options);
+    latest.current = options;
+
+    const requests = useLatestRequest(options.onCancel);
+
+    const load = React.useCallback(() => {
+        const {
+            serverAdapter = defaultServerAdapter, renderOnEmptyResult, onError, onLoadStart, onLoad, wait, versionHeader
+        } = latest.current;
+        if (wait) {
+            return;
+        }
+        requests.cancel();
+        onLoadStart && onLoadStart();
+        setState(s => s.loading ? s : {...s, loading: true});
+        let version: string;
+        requests.track(
+            JsonApi.get(generatePath(apiUrl, urlParams || {}), query, versionHeader ? {
+                cache: false,
+                onResponse: response => version = response.headers[versionHeader.toLowerCase()]
+            } : {}),
+            response => {
+                const data = serverAdapter(response);
+                setState({...loadedState(data, renderOnEmptyResult), version});
+                onLoad && onLoad(data);
+            },
+            error => {
+                if (onError && onError(error) === false) {
+                    setState(s => ({...s, loading: false}));
+                } else {
+                    setState(s => ({...s, error, loading: false}));
+                }
+            }
+        );
+    }, [apiUrl, urlParams, query]);
+
+    const initial = React.useRef(true);
+    React.useEffect(() => {
+        if (options.wait) {
+            return;
+        }
+        if (initial.current && seeded.current) {
+            initial.current = false;
+            return;
+        }
+        if (!initial.current) {
+            // the query changed; keep showing the current data until the new data arrives
+            setState(s => ({data: s.data, loading: true}));
+        }
+        initial.current = false;
+        load();
+    }, [load, !!options.wait]);
+
+    const reload = React.useCallback((clearData?: boolean) => {
+        if (clearData) {
+            setState(s => ({...s, data: null}));
+        }
+        load();
+    }, [load]);
+    useRevalidation(reload, options);
+
+    const mutate = React.useCallback((update: (data: ResultType) => ResultType) => {
+        setState(s => s.data == null ? s : {...s, data: update(s.data)});
+    }, []);
+
+    return {...state, isRefreshing: state.loading && state.data != null, reload, mutate};
+}
@@ -0,0 +1,135 @@
+import * as React from 'react';
+import {JsonApiError} from "./json-api-error";
+import {ResourceOptions, ResourceState, RevalidationOptions, useResource} from "./use-resource";
+
+/**
+ * @docs
+ *
+ * Loading several resources at once
+ *
+ *   const {data, errors, ready} = useResources<{ sample: Sample, runs: Run[], qc: QcMetrics }>({
+ *       sample: { url: '/samples/:id', getUrlParams: () => ({ id }) },
+ *       runs: { url: '/runs', getApiQuery: () => ({ sampleId: id }), renderOnEmptyResult: true },
+ *       qc: {
+ *           url: '/qc/:runId',
+ *           dependsOn: ['runs'],
+ *           getUrlParams: (props, data) => ({ runId: data.runs[0].id })
+ *       }
+ *   }, props)
+ *
+ * Independent resources load in parallel. A resource with dependsOn waits until those resources have data, and its
+ * getApiQuery and getUrlParams receive the data loaded so far. The set of resources must not change between renders.
+ */
+
+export interface ResourceSpec<ResultType, Props = any, Results = any> {
+    url: string;
+    getApiQuery?(props: Props, data: Partial<Results>): any;
+    getUrlParams?(props: Props, data: Partial<Results>): any;
+    serverAdapter?(response: any): ResultType;
+    renderOnEmptyResult?: boolean;
+
+    /**
+     * Names of the resources whose data this one's query or url needs.
+     */
+    dependsOn?: (keyof Results)[];
+}
+
+export type ResourceSpecs<Results, Props = any> = {
+    [Name in keyof Results]: ResourceSpec<Results[Name], Props, Results>
+};
+
+export interface ResourcesState<Results> {
+    /**
+     * The data of each resource which has loaded.
+     */
+    data: Partial<Results>;
+    errors: Partial<Record<keyof Results, JsonApiError|string>>;
+    loading: Record<keyof Results, boolean>;
+
+    /**
+     * Every resource has data.
+     */
+    ready: boolean;
+    isRefreshing: boolean;
+
+    /**
+     * Fetch every resource again, optionally discarding the current data first.
+     */
+    reload(clearData?: boolean): void;
+}
+
+export type ResourcesOptions = RevalidationOptions & {
+    onError?(error: JsonApiError|string, name: string): any;
+};
+
+/**
+ * Orders the resources so that each comes after those it depends on.
+ */
+function loadOrder(specs: ResourceSpecs<any>): string[] {
+    const order: string[] = [];
+    const visit = (name: string, path: string[]) => {
+        if (!specs[name]) {
+            throw new Error(`Resource '${path[path.length - 1]}' depends on unknown resource '${name}'.`);
+        }
+        if (path.indexOf(name) >= 0) {
+            throw new Error(`Resources depend on each other in a cycle: ${path.concat(name).join(' -> ')}`);
+        }
+        if (order.indexOf(name) < 0) {
+            (specs[name].dependsOn || []).forEach((dependency: string) => visit(dependency, path.concat(name)));
+            order.push(name);
+        }
+    };
+    Object.keys(specs).forEach(name => visit(name, []));
+    return order;
+}
+
+export function useResources<Results extends {}, Props = {}>(
+    specs: ResourceSpecs<Results, Props>,
+    props?: Props,
+    options: ResourcesOptions = {}
+): ResourcesState<Results> {
+    const order = loadOrder(specs);
+    const data: Partial<Results> = {};
+    const resources: Record<string, ResourceState<any>> = {};
+
+    // the resources are fixed for the life of the component, so the hooks are always called in the same sequence
+    for (let name of order) {
+        const spec: ResourceSpec<any, Props, Results> = (specs as any)[name];
+        const wait = (spec.dependsOn || []).some(dependency => data[dependency] == null);
+        const resource = resources[name] = useResource(
+            spec.url,
+            wait || !spec.getApiQuery ? undefined : spec.getApiQuery(props, data),
+            {
+                ...options,
+                serverAdapter: spec.serverAdapter,
+                urlParams: wait || !spec.getUrlParams ? undefined : spec.getUrlParams(props, data),
+                renderOnEmptyResult: spec.renderOnEmptyResult,
+                wait,
+                onError: options.onError && ((error: JsonApiError|string) => options.onError(error, name))
+            } as ResourceOptions<any>
+        );
+        if (resource.data != null) {
+            (data as any)[name] = resource.data;
+        }
+    }
+
+    const errors: Partial<Record<keyof Results, JsonApiError|string>> = {};
+    const loading = {} as Record<keyof Results, boolean>;
+    for (let name of order) {
+        if (resources[name].error) {
+            (errors as any)[name] = resources[name].error;
+        }
+        (loading as any)[name] = resources[name].loading;
+    }
+
+    const reload = (clearData?: boolean) => order.forEach(name => resources[name].reload(clearData));
+
+    return {
+        data,
+        errors,
+        loading,
+        ready: order.every(name => resources[name].data != null),
+        isRefreshing: order.some(name => resources[name].isRefreshing),
+        reload
+    };
+}
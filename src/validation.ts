@@ -0,0 +1,100 @@
+import {JsonApiError} from "./json-api-error";
+
+/**
+ * Validation of the record a Composer edits, on the client and from the server's 422 responses.
+ *
+ * Errors are messages by field name, in the same shape as the `errors` of a Rails 422 response. Messages about the
+ * record as a whole go under `base`.
+ */
+
+export type FieldErrors<U = any> = { [K in keyof U]?: string[] } & { base?: string[] };
+
+/**
+ * A message, several messages, or nothing if the value is valid.
+ */
+export type ValidationResult = string | string[] | null | undefined | void;
+
+export type FieldValidator<U, K extends keyof U> =
+    (value: U[K], record: U) => ValidationResult | Promise<ValidationResult>;
+
+export interface Validation<U> {
+    /**
+     * Validators for single fields, run when the field changes.
+     */
+    fields?: { [K in keyof U]?: FieldValidator<U, K> | FieldValidator<U, K>[] };
+
+    /**
+     * Validates the whole record, run whenever any field changes.
+     */
+    record?(record: U): FieldErrors<U> | void | Promise<FieldErrors<U> | void>;
+
+    /**
+     * Translates the body of a 422 response into field errors. By default its `errors` are used: an object of
+     * messages by field, or a list of messages for the record as a whole.
+     */
+    serverErrors?(body: any): FieldErrors<U>;
+}
+
+function messages(result: ValidationResult): string[] {
+    return !result ? [] : (Array.isArray(result) ? result : [result]).filter(Boolean).map(String);
+}
+
+/**
+ * Normalize messages to lists, leaving out fields without any.
+ */
+function compact<U>(errors: any): FieldErrors<U> {
+    const compacted: any = {};
+    for (let field in errors || {}) if (errors.hasOwnProperty(field)) {
+        const list = messages(errors[field]);
+        if (list.length) {
+            compacted[field] = list;
+        }
+    }
+    return compacted;
+}
+
+export async function validateField<U, K extends keyof U>(
+    validation: Validation<U>,
+    field: K,
+    record: U
+): Promise<string[]> {
+    const validators: FieldValidator<U, K>[] = [].concat((validation.fields && validation.fields[field]) || []);
+    const results: ValidationResult[] =
+        await Promise.all(validators.map(validator => validator(record[field], record)));
+    return results.reduce<string[]>((all, result) => all.concat(messages(result)), []);
+}
+
+export async function validateRecord<U>(validation: Validation<U>, record: U): Promise<FieldErrors<U>> {
+    return validation.record ? compact(await validation.record(record)) : {};
+}
+
+/**
+ * @returns the field errors of a 422 response, or null if the failure wasn't one
+ */
+export function serverFieldErrors<U>(error: JsonApiError|string, validation: Validation<U> = {}): FieldErrors<U> {
+    if (!(error instanceof JsonApiError) || error.status !== 422) {
+        return null;
+    }
+    if (validation.serverErrors) {
+        return compact(validation.serverErrors(error.body));
+    }
+    const errors = error.body && error.body.errors;
+    if (Array.isArray(errors)) {
+        return compact({base: errors});
+    }
+    return errors && typeof errors == 'object' ? compact(errors) : null;
+}
+
+export function mergeErrors<U>(...all: FieldErrors<U>[]): FieldErrors<U> {
+    const merged: any = {};
+    for (let errors of all) {
+        for (let field in errors) if (errors.hasOwnProperty(field) && (errors as any)[field].length) {
+            merged[field] = (merged[field] || []).concat((errors as any)[field]);
+        }
+    }
+    return merged;
+}
+
+export function hasErrors(errors: FieldErrors): boolean {
+    return Object.keys(errors).some(field => !!(errors as any)[field] && (errors as any)[field].length > 0);
+}
@@ -0,0 +1,146 @@
+import * as assert from "assert";
+import JsonApi, {configureDefaults, invalidateCache} from "../src/json-api";
+import {JsonApiError} from "../src/json-api-error";
+import {MockServer} from "../src/testing";
+
+const fastRetry = {maxAttempts: 3, delay: 1, jitter: 0};
+
+function rejection(promise: Promise<any>): Promise<JsonApiError> {
+    return promise.then(() => assert.fail('expected the call to fail'), (error: JsonApiError) => error);
+}
+
+describe('JsonApi', () => {
+    let server: MockServer;
+
+    beforeEach(() => {
+        server = new MockServer().install();
+    });
+
+    afterEach(() => {
+        server.uninstall();
+        configureDefaults({cache: false, dedupe: true});
+        invalidateCache();
+    });
+
+    describe('errors', () => {
+        it('reports the error field of an error response', async () => {
+            server.get('/samples/1', {status: 422, body: {error: 'Invalid sample'}});
+            const error = await rejection(JsonApi.get('/samples/1'));
+            assert.ok(error instanceof JsonApiError);
+            assert.strictEqual(error.kind, 'http');
+            assert.strictEqual(error.status, 422);
+            assert.strictEqual(`${error}`, 'Invalid sample');
+            assert.deepStrictEqual(error.body, {error: 'Invalid sample'});
+        });
+
+        it('reports a server which could not be reached', async () => {
+            server.get('/samples/1', {fail: 'network'});
+            const error = await rejection(JsonApi.get('/samples/1'));
+            assert.strictEqual(error.kind, 'network');
+            assert.strictEqual(error.status, 0);
+        });
+
+        it('reports a timeout', async () => {
+            server.get('/samples/1', {delay: 50, body: {}});
+            const error = await rejection(JsonApi.get('/samples/1', undefined, {timeout: 10}));
+            assert.strictEqual(error.kind, 'timeout');
+        });
+
+        it('fails with what onResponse throws', async () => {
+            server.get('/samples/1', {body: {id: 1}});
+            const error = await rejection(JsonApi.get('/samples/1', undefined, {
+                onResponse: response => {
+                    throw new Error(`No version in ${Object.keys(response.headers)}`);
+                }
+            }));
+            assert.strictEqual(error.message, 'No version in content-type');
+        });
+
+        it('reports a JSON response which does not parse', async () => {
+            server.get('/samples/1', {body: '{"id":', headers: {'Content-Type': 'application/json'}});
+            const error = await rejection(JsonApi.get('/samples/1'));
+            assert.strictEqual(error.kind, 'parse');
+        });
+    });
+
+    describe('retries', () => {
+        it('retries an idempotent call until it succeeds', async () => {
+            let attempts = 0;
+            server.get('/samples/1', () => ++attempts < 3 ? {status: 503} : {body: {id: 1}});
+            assert.deepStrictEqual(await JsonApi.get('/samples/1', undefined, {retry: fastRetry}), {id: 1});
+            assert.strictEqual(attempts, 3);
+        });
+
+        it('retries a network failure', async () => {
+            let attempts = 0;
+            server.put('/samples/1', () => ++attempts < 2 ? {fail: 'network'} : {body: {id: 1}});
+            await JsonApi.put('/samples/1', {id: 1}, {retry: fastRetry});
+            assert.strictEqual(attempts, 2);
+        });
+
+        it('gives up after the last attempt', async () => {
+            server.get('/samples/1', {status: 503, body: {error: 'Unavailable'}});
+            const error = await rejection(JsonApi.get('/samples/1', undefined, {retry: fastRetry}));
+            assert.strictEqual(error.status, 503);
+            assert.strictEqual(server.requests.length, 3);
+        });
+
+        it('does not retry a POST', async () => {
+            server.post('/samples', {status: 503});
+            await rejection(JsonApi.post('/samples', {}, {retry: fastRetry}));
+            assert.strictEqual(server.requests.length, 1);
+        });
+    });
+
+    describe('dedupe', () => {
+        it('shares an identical GET in flight, giving each caller its own copy', async () => {
+            server.get('/samples/1', {delay: 5, body: {id: 1, runs: []}});
+            const [first, second] = await Promise.all([JsonApi.get('/samples/1'), JsonApi.get('/samples/1')]);
+            assert.strictEqual(server.requests.length, 1);
+            assert.deepStrictEqual(first, second);
+            assert.notStrictEqual(first, second);
+        });
+
+        it('sends GETs with different headers separately', async () => {
+            server.get('/samples/1', {delay: 5, body: {id: 1}});
+            await Promise.all([
+                JsonApi.get('/samples/1'),
+                JsonApi.get('/samples/1', undefined, {headers: {'Accept-Language': 'fr'}})
+            ]);
+            assert.strictEqual(server.requests.length, 2);
+        });
+
+        it('can be turned off', async () => {
+            configureDefaults({dedupe: false});
+            server.get('/samples/1', {delay: 5, body: {id: 1}});
+            await Promise.all([JsonApi.get('/samples/1'), JsonApi.get('/samples/1')]);
+            assert.strictEqual(server.requests.length, 2);
+        });
+
+        it('keeps waiting for a shared GET when another caller cancels', async () => {
+            server.get('/samples/1', {delay: 5, body: {id: 1}});
+            const cancelled = JsonApi.get('/samples/1');
+            const kept = JsonApi.get('/samples/1');
+            cancelled.cancel();
+            assert.deepStrictEqual(await kept, {id: 1});
+            assert.strictEqual(server.requests.length, 1);
+        });
+    });
+
+    describe('cache', () => {
+        it('answers from the cache until a change to the resource', async () => {
+            configureDefaults({cache: true});
+            let name = 'v1';
+            server.get('/samples/1', () => ({body: {id: 1, name}}));
+            server.patch('/samples/1', ({body}) => {
+                name = body.name;
+                return {body: {}};
+            });
+            await JsonApi.get('/samples/1');
+            assert.deepStrictEqual(await JsonApi.get('/samples/1'), {id: 1, name: 'v1'});
+            assert.strictEqual(server.requests.length, 1);
+            await JsonApi.patch('/samples/1', {name: 'v2'});
+            assert.deepStrictEqual(await JsonApi.get('/samples/1'), {id: 1, name: 'v2'});
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import * as assert from "assert";
+import {applyPatch, deepDiff, PatchError, PatchOperation} from "../src/json-patch";
+
+function roundTrip(lhs: any, rhs: any, identity?: string) {
+    const operations = deepDiff(lhs, rhs, {identity});
+    assert.deepStrictEqual(applyPatch(lhs, operations), rhs);
+    return operations;
+}
+
+describe('json-patch', () => {
+    describe('deepDiff', () => {
+        it('finds a change deep inside a record as one operation', () => {
+            assert.deepStrictEqual(roundTrip({name: 'a', run: {status: 'new'}}, {name: 'a', run: {status: 'done'}}),
+                [{op: 'replace', path: '/run/status', value: 'done'}]);
+        });
+
+        it('adds and removes fields, treating undefined as absent', () => {
+            assert.deepStrictEqual(roundTrip({a: 1, b: 2, c: undefined}, {a: 1, c: 3}), [
+                {op: 'remove', path: '/b'},
+                {op: 'add', path: '/c', value: 3}
+            ]);
+        });
+
+        it('finds an insertion in the middle of an array', () => {
+            assert.deepStrictEqual(roundTrip([1, 2, 3], [1, 4, 2, 3]), [{op: 'add', path: '/1', value: 4}]);
+            assert.deepStrictEqual(roundTrip([1, 4, 2, 3], [1, 2, 3]), [{op: 'remove', path: '/1'}]);
+        });
+
+        it('moves items matched by identity', () => {
+            const lhs = {aliquots: [{id: 1, volume: 5}, {id: 2, volume: 3}]};
+            const rhs = {aliquots: [{id: 2, volume: 3}, {id: 1, volume: 4}, {volume: 1}]};
+            assert.deepStrictEqual(roundTrip(lhs, rhs, 'id'), [
+                {op: 'move', from: '/aliquots/1', path: '/aliquots/0'},
+                {op: 'replace', path: '/aliquots/1/volume', value: 4},
+                {op: 'add', path: '/aliquots/2', value: {volume: 1}}
+            ]);
+        });
+
+        it('escapes keys in paths', () => {
+            assert.deepStrictEqual(roundTrip({'a/b': 1, 'c~d': 1}, {'a/b': 2, 'c~d': 2}), [
+                {op: 'replace', path: '/a~1b', value: 2},
+                {op: 'replace', path: '/c~0d', value: 2}
+            ]);
+        });
+    });
+
+    describe('applyPatch', () => {
+        it('leaves the document as it is', () => {
+            const document = {runs: [{id: 1}]};
+            const patched = applyPatch(document, [{op: 'add', path: '/runs/-', value: {id: 2}}]);
+            assert.deepStrictEqual(document, {runs: [{id: 1}]});
+            assert.deepStrictEqual(patched, {runs: [{id: 1}, {id: 2}]});
+        });
+
+        it('copies values and passes tests', () => {
+            const operations: PatchOperation[] = [
+                {op: 'test', path: '/name', value: 'a'},
+                {op: 'copy', from: '/name', path: '/alias'}
+            ];
+            assert.deepStrictEqual(applyPatch({name: 'a'}, operations), {name: 'a', alias: 'a'});
+        });
+
+        it('throws a PatchError for a failed test or a missing path', () => {
+            assert.throws(() => applyPatch({name: 'a'}, [{op: 'test', path: '/name', value: 'b'}]), PatchError);
+            assert.throws(() => applyPatch({name: 'a'}, [{op: 'remove', path: '/runs/0'}]), PatchError);
+            assert.throws(() => applyPatch([1], [{op: 'replace', path: '/1', value: 2}]), PatchError);
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import * as React from "react";
+import {act, create, ReactTestRenderer} from "react-test-renderer";
+import LoaderHOC from "../src/loader-hoc";
+import {PageControls} from "../src/use-paged-resource";
+import {MockServer} from "../src/testing";
+
+interface Sample {
+    id: number;
+}
+
+function settled() {
+    return new Promise(resolve => setTimeout(resolve, 20));
+}
+
+/**
+ * Render a loader, whose type allows renderError and renderLoader to return components rather than elements.
+ */
+async function render<P>(Loader: (props: P) => any, props: P) {
+    let renderer: ReactTestRenderer;
+    act(() => {
+        renderer = create(React.createElement(Loader as React.FunctionComponent<P>, props));
+    });
+    for (let wait = 0; wait < 50 && renderer.toJSON().type == 'div'; wait++) {
+        await act(settled);
+    }
+    return renderer;
+}
+
+describe('LoaderHOC', () => {
+    let server: MockServer;
+
+    beforeEach(() => {
+        server = new MockServer().install();
+        server.get('/samples/:id', ({params}) => ({body: {id: +params.id}}));
+        server.get('/samples', ({query}) => ({
+            body: [1, 2].map(i => ({id: (query.page - 1) * 2 + i})),
+            headers: {'X-Total-Count': '5'}
+        }));
+    });
+
+    afterEach(() => {
+        server.uninstall();
+    });
+
+    it('passes the data to the component', async () => {
+        const SampleView = LoaderHOC<Sample>('/samples/:id', {getUrlParams: props => ({id: props.id})})(
+            ({data}: {data: Sample}) => <b>{data.id}</b>
+        );
+        const renderer = await render(SampleView, {id: 3});
+        assert.deepStrictEqual(renderer.toJSON().children, ['3']);
+    });
+
+    it('passes the items of the page and the page controls to a paginated component', async () => {
+        let controls: Partial<PageControls>;
+        const SampleList = LoaderHOC<Sample[]>('/samples', {pagination: {strategy: 'page', pageSize: 2}})(
+            ({data, ...props}: {data: Sample[]} & Partial<PageControls>) => {
+                controls = props;
+                return <b>{data.map(sample => sample.id).join(',')}</b>;
+            }
+        );
+        const renderer = await render(SampleList, {});
+        assert.deepStrictEqual(renderer.toJSON().children, ['1,2']);
+        assert.strictEqual(controls.totalCount, 5);
+        assert.strictEqual(controls.hasMore, true);
+
+        await act(async () => {
+            controls.goToPage(2);
+            await settled();
+        });
+        assert.deepStrictEqual(renderer.toJSON().children, ['3,4']);
+        assert.strictEqual(controls.page, 2);
+    });
+});
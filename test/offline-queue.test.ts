@@ -0,0 +1,143 @@
+import * as assert from "assert";
+import JsonApi from "../src/json-api";
+import {
+    disableOfflineQueue,
+    discardQueued,
+    enableOfflineQueue,
+    QueuedCall,
+    queuedCalls,
+    QueuedError,
+    replayQueue,
+    retryQueued
+} from "../src/offline-queue";
+import {memoryStorage} from "../src/use-draft";
+import {MockServer} from "../src/testing";
+
+function settled() {
+    return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+describe('offline queue', () => {
+    let server: MockServer;
+    let online: boolean;
+    let sent: QueuedCall[];
+
+    beforeEach(async () => {
+        server = new MockServer().install();
+        online = false;
+        sent = [];
+        const reply = (status: number) => () => online ? {status, body: {}} : {fail: 'network' as 'network'};
+        server.post('/samples', reply(201));
+        server.patch('/samples/:id', reply(200));
+        server.put('/samples/:id', () => online ? {status: 409, body: {error: 'Changed'}} : {fail: 'network'});
+        enableOfflineQueue({storage: memoryStorage(), onSent: (response, call) => sent.push(call)});
+        await settled();
+    });
+
+    afterEach(() => {
+        queuedCalls().forEach(call => discardQueued(call.id));
+        disableOfflineQueue();
+        server.uninstall();
+    });
+
+    it('queues a change which cannot reach the server', async () => {
+        const error = await JsonApi.post('/samples', {name: 'S1'}).catch(e => e);
+        assert.ok(error instanceof QueuedError);
+        assert.strictEqual(error.kind, 'queued');
+        assert.deepStrictEqual(queuedCalls().map(call => [call.method, call.url, call.data, call.status]),
+            [['POST', '/samples', {name: 'S1'}, 'waiting']]);
+    });
+
+    it('does not queue a GET', async () => {
+        server.get('/samples', {fail: 'network'});
+        const error = await JsonApi.get('/samples').catch(e => e);
+        assert.strictEqual(error.kind, 'network');
+        assert.strictEqual(queuedCalls().length, 0);
+    });
+
+    it('replays the calls in order, with the same idempotency key', async () => {
+        await JsonApi.post('/samples', {name: 'S1'}).catch(() => null);
+        await JsonApi.patch('/samples/1', {name: 'S2'}).catch(() => null);
+        await settled();
+        const key = server.requests[0].headers['Idempotency-Key'];
+        assert.ok(key);
+
+        online = true;
+        server.reset(true);
+        await replayQueue();
+        assert.deepStrictEqual(server.requests.map(request => `${request.method} ${request.url}`),
+            ['POST /samples', 'PATCH /samples/1']);
+        assert.strictEqual(server.requests[0].headers['Idempotency-Key'], key);
+        assert.deepStrictEqual(server.requests[0].body, {name: 'S1'});
+        assert.strictEqual(queuedCalls().length, 0);
+        assert.deepStrictEqual(sent.map(call => call.url), ['/samples', '/samples/1']);
+    });
+
+    it('queues a call made while others wait behind them', async () => {
+        await JsonApi.post('/samples', {name: 'S1'}).catch(() => null);
+        online = true;
+        const error = await JsonApi.patch('/samples/1', {name: 'S2'}).catch(e => e);
+        assert.ok(error instanceof QueuedError);
+        await replayQueue();
+        assert.deepStrictEqual(server.requests.slice(-2).map(request => request.method), ['POST', 'PATCH']);
+        assert.strictEqual(queuedCalls().length, 0);
+    });
+
+    it('stops replaying while the server still cannot be reached', async () => {
+        await JsonApi.post('/samples', {name: 'S1'}).catch(() => null);
+        await JsonApi.post('/samples', {name: 'S2'}).catch(() => null);
+        await settled();
+        server.reset(true);
+        await replayQueue();
+        assert.strictEqual(server.requests.length, 1);
+        // the second call tried the first again when it was queued behind it
+        assert.deepStrictEqual(queuedCalls().map(call => call.attempts), [3, 1]);
+    });
+
+    it('replays again when asked to while replaying', async () => {
+        await JsonApi.post('/samples', {name: 'S1'}).catch(() => null);
+        await settled();
+        // the connection returns while the server is still failing to answer
+        server.post('/samples', () => online ? {status: 201, body: {}} : {fail: 'network', delay: 20});
+        server.reset(true);
+        const replaying = replayQueue();
+        while (!server.requests.length) {
+            await new Promise(resolve => setTimeout(resolve));
+        }
+        online = true;
+        const again = replayQueue();
+        await replaying;
+        await again;
+        assert.strictEqual(queuedCalls().length, 0);
+        assert.deepStrictEqual(sent.map(call => call.url), ['/samples']);
+    });
+
+    it('keeps a conflict for retryQueued, and sends the calls after it', async () => {
+        await JsonApi.put('/samples/1', {name: 'S1'}).catch(() => null);
+        await JsonApi.post('/samples', {name: 'S2'}).catch(() => null);
+        await settled();
+        online = true;
+        await replayQueue();
+        assert.deepStrictEqual(queuedCalls().map(call => [call.method, call.status, call.error]),
+            [['PUT', 'conflict', 'Changed']]);
+        assert.deepStrictEqual(sent.map(call => call.method), ['POST']);
+
+        server.put('/samples/:id', {body: {}});
+        await retryQueued();
+        assert.strictEqual(queuedCalls().length, 0);
+    });
+
+    it('sends the calls stored before the page was closed when enabled', async () => {
+        const storage = memoryStorage();
+        const stored: QueuedCall = {
+            id: 'stored', method: 'POST', url: '/samples', data: {name: 'S1'}, headers: {'Idempotency-Key': 'stored'},
+            queuedAt: Date.now(), attempts: 1, status: 'waiting'
+        };
+        storage.setItem('offline-queue', JSON.stringify([stored]));
+        online = true;
+        enableOfflineQueue({storage});
+        await settled();
+        server.expectRequest('POST', '/samples', {name: 'S1'});
+        assert.strictEqual(queuedCalls().length, 0);
+    });
+});
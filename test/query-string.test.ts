@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import {parseQuery, serializeQuery} from "../src/query-string";
+
+describe('query-string', () => {
+    it('round-trips nested objects and arrays', () => {
+        const query = {name: 'S 1&2', range: {min: '1', max: '5'}, ids: ['1', '2'], runs: [{id: '3'}, {id: '4'}]};
+        const format = {arrayFormat: 'brackets' as 'brackets'};
+        assert.deepStrictEqual(parseQuery(serializeQuery(query, format)), query);
+    });
+
+    it('writes arrays of plain values in each format', () => {
+        assert.strictEqual(serializeQuery({ids: [1, 2]}, {arrayFormat: 'brackets'}), 'ids[]=1&ids[]=2');
+        assert.strictEqual(serializeQuery({ids: [1, 2]}, {arrayFormat: 'repeat'}), 'ids=1&ids=2');
+        assert.strictEqual(serializeQuery({ids: [1, 2]}, {arrayFormat: 'comma'}), 'ids=1%2C2');
+        assert.deepStrictEqual(parseQuery('ids=1&ids=2'), {ids: ['1', '2']});
+    });
+
+    it('splits comma-separated values only when asked to', () => {
+        assert.deepStrictEqual(parseQuery('?q=Smith,%20J'), {q: 'Smith, J'});
+        assert.deepStrictEqual(parseQuery('?ids=1,2', {arrayFormat: 'comma'}), {ids: ['1', '2']});
+    });
+
+    it('formats dates and booleans, and omits nulls', () => {
+        const date = new Date(Date.UTC(2020, 0, 2));
+        assert.strictEqual(serializeQuery({date, on: true, off: null}), 'date=2020-01-02T00%3A00%3A00.000Z&on=true');
+        assert.strictEqual(serializeQuery({date, on: true}, {dateFormat: 'timestamp', booleanFormat: 'number'}),
+            `date=${date.getTime()}&on=1`);
+    });
+
+    it('skips keys which would reach Object.prototype', () => {
+        const parsed = parseQuery('__proto__[polluted]=yes&constructor[prototype][polluted]=yes&a[__proto__][b]=c&d=e');
+        assert.strictEqual(({} as any).polluted, undefined);
+        assert.deepStrictEqual(parsed, {d: 'e'});
+        assert.deepStrictEqual(parseQuery('__proto__=a,b', {arrayFormat: 'comma'}), {});
+    });
+});
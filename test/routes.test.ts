@@ -0,0 +1,56 @@
+import * as assert from "assert";
+import {defineRoutes, matchRoute, routeUrl} from "../src/routes";
+
+describe('routes', () => {
+    before(() => {
+        defineRoutes({
+            samples: '/samples',
+            sample: '/samples/:id',
+            sample_run: '/samples/:sampleId/runs/:runId',
+            reports: '/reports/:year?'
+        });
+    });
+
+    describe('routeUrl', () => {
+        it('fills in parameters and the query', () => {
+            assert.strictEqual(routeUrl('sample_run', {sampleId: 1, runId: 2, query: {tab: 'reads'}}),
+                '/samples/1/runs/2?tab=reads');
+        });
+
+        it('encodes parameters', () => {
+            assert.strictEqual(routeUrl('sample', {id: 'a/b c'}), '/samples/a%2Fb%20c');
+        });
+
+        it('leaves out optional parameters', () => {
+            assert.strictEqual(routeUrl('reports', {}), '/reports');
+            assert.strictEqual(routeUrl('reports', {year: null}), '/reports');
+            assert.strictEqual(routeUrl('reports', {year: 2020}), '/reports/2020');
+        });
+
+        it('throws for an unknown route, a missing parameter or an extra one', () => {
+            assert.throws(() => routeUrl('nothing', {}), /Unknown route: nothing/);
+            assert.throws(() => routeUrl('sample', {}), /missing parameters: id/);
+            assert.throws(() => routeUrl('sample', {id: 1, runId: 2}), /has no parameters: runId/);
+        });
+    });
+
+    describe('matchRoute', () => {
+        it('finds the route, its parameters and the query', () => {
+            const {name, params, query} = matchRoute('https://example.com/samples/1/runs/2?tab=reads');
+            assert.strictEqual(name, 'sample_run');
+            assert.deepStrictEqual({...params}, {sampleId: '1', runId: '2'});
+            assert.deepStrictEqual(query, {tab: 'reads'});
+        });
+
+        it('is the reverse of routeUrl', () => {
+            const {name, params, query} = matchRoute(routeUrl('sample', {id: 'a/b c', query: {page: 2}}));
+            assert.strictEqual(name, 'sample');
+            assert.deepStrictEqual({...params}, {id: 'a/b c'});
+            assert.deepStrictEqual(query, {page: '2'});
+        });
+
+        it('returns null when no route matches', () => {
+            assert.strictEqual(matchRoute('/runs/1'), null);
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import * as assert from "assert";
+import * as React from "react";
+import {act, create, ReactTestRenderer} from "react-test-renderer";
+import JsonApi from "../src/json-api";
+import {LoaderErrorBoundary, useSuspenseResource} from "../src/suspense";
+import {MockServer} from "../src/testing";
+
+function settled() {
+    return new Promise(resolve => setTimeout(resolve, 20));
+}
+
+const Sample = ({id}: {id: number}) => <b>{JSON.stringify(useSuspenseResource(`/samples/${id}`).data)}</b>;
+
+function Page({id}: {id: number}) {
+    return (
+        <LoaderErrorBoundary fallback={error => <i>{`${error}`}</i>}>
+            <React.Suspense fallback={<p>loading</p>}>
+                <Sample id={id} />
+            </React.Suspense>
+        </LoaderErrorBoundary>
+    );
+}
+
+describe('suspense', () => {
+    let server: MockServer;
+    let name: string;
+
+    beforeEach(() => {
+        server = new MockServer(2).install();
+        name = 'v1';
+        server.get('/samples/:id', ({params}) => ({body: {id: +params.id, name}}));
+        server.patch('/samples/:id', ({body}) => {
+            name = body.name;
+            return {body: {}};
+        });
+    });
+
+    afterEach(() => {
+        server.uninstall();
+    });
+
+    async function render(id: number) {
+        let renderer: ReactTestRenderer;
+        act(() => {
+            renderer = create(<Page id={id} />);
+        });
+        for (let wait = 0; wait < 50 && renderer.toJSON().type == 'p'; wait++) {
+            await act(settled);
+        }
+        return renderer;
+    }
+
+    async function unmount(renderer: ReactTestRenderer) {
+        await act(async () => {
+            renderer.unmount();
+            await settled();
+        });
+    }
+
+    it('suspends until the data arrives', async () => {
+        const renderer = await render(1);
+        assert.deepStrictEqual(renderer.toJSON().children, ['{"id":1,"name":"v1"}']);
+        await unmount(renderer);
+    });
+
+    it('shares a response between the loaders showing it', async () => {
+        const first = await render(2);
+        const second = await render(2);
+        assert.strictEqual(server.findRequests('GET', '/samples/2').length, 1);
+        await unmount(first);
+        await unmount(second);
+    });
+
+    it('forgets a response once no loader shows it', async () => {
+        await unmount(await render(3));
+        await unmount(await render(3));
+        assert.strictEqual(server.findRequests('GET', '/samples/3').length, 2);
+    });
+
+    it('forgets a response changed through JsonApi', async () => {
+        const shown = await render(4);
+        await act(async () => {
+            await JsonApi.patch('/samples/4', {name: 'v2'});
+        });
+        const renderer = await render(4);
+        assert.deepStrictEqual(renderer.toJSON().children, ['{"id":4,"name":"v2"}']);
+        await unmount(shown);
+        await unmount(renderer);
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from "assert";
+import * as React from "react";
+import {act, create} from "react-test-renderer";
+import {ComposerState, Integration, useComposer} from "../src/use-composer";
+import {MockServer} from "../src/testing";
+
+interface Sample {
+    id: number;
+    name: string;
+}
+
+function settled() {
+    return new Promise(resolve => setTimeout(resolve, 20));
+}
+
+/**
+ * Render a composer for an existing sample, returning its latest state.
+ */
+function compose(saveUrl: string, integration: Partial<Integration<Sample, Sample>> = {}) {
+    const latest: {current?: ComposerState<Sample>} = {};
+    const Composer = (): null => {
+        const spec: Integration<Sample, Sample> = {
+            defaultState: {id: null, name: ''},
+            deserialize: data => data,
+            serialize: data => data,
+            ...integration
+        };
+        latest.current = useComposer(saveUrl, spec, {existingObject: {id: 1, name: 'S1'}, confirmDelete: false});
+        return null;
+    };
+    act(() => {
+        create(<Composer />);
+    });
+    return latest;
+}
+
+describe('useComposer', () => {
+    let server: MockServer;
+
+    beforeEach(() => {
+        server = new MockServer().install();
+        server.delete('/samples/:id', {body: {message: 'Deleted'}});
+    });
+
+    afterEach(() => {
+        server.uninstall();
+    });
+
+    describe('remove', () => {
+        it('sends a DELETE without a body to a save url which names the record', async () => {
+            const composer = compose('/samples/:id', {getUrlParams: record => ({id: record.id})});
+            await act(async () => {
+                await composer.current.remove();
+                await settled();
+            });
+            assert.strictEqual(server.expectRequest('DELETE', '/samples/1').body, undefined);
+            assert.strictEqual(composer.current.serverMessage, 'Deleted');
+        });
+
+        it('appends the primary key to a collection save url', async () => {
+            const composer = compose('/samples');
+            await act(async () => {
+                await composer.current.remove();
+                await settled();
+            });
+            server.expectAllMatched();
+            assert.strictEqual(server.expectRequest('DELETE', '/samples/1').body, undefined);
+        });
+    });
+});